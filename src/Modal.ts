@@ -0,0 +1,195 @@
+/**
+ * Options used to create a Modal
+ * @internal
+ */
+export interface ModalOptions {
+  /**
+   * Dialog width
+   * @default '500px'
+   */
+  width?: string;
+  /**
+   * Dialog height
+   * @default '700px'
+   */
+  height?: string;
+  /**
+   * Additional CSS class for the dialog element
+   */
+  className?: string;
+  /**
+   * Accessible name of the dialog
+   */
+  ariaLabel: string;
+  /**
+   * Whether clicking the backdrop dismisses the modal
+   */
+  closeOnBackdropClick: boolean;
+  /**
+   * Invoked when the user dismisses the modal (close button, Escape or backdrop)
+   */
+  onDismiss: () => void;
+}
+
+/**
+ * Modal - Managed full-screen overlay hosting a session iframe
+ *
+ * Renders a backdrop and a dialog with an accessible close button, locks page
+ * scrolling, keeps keyboard focus inside the dialog and dismisses on Escape.
+ * Focus and scrolling are restored when the modal is destroyed.
+ *
+ * @internal
+ */
+export class Modal {
+  /**
+   * Element the iframe is mounted in
+   */
+  readonly container: HTMLElement;
+  private overlay: HTMLElement;
+  private dialog: HTMLElement;
+  private closeButton: HTMLButtonElement;
+  private previousFocus: Element | null;
+  private previousOverflow: string;
+  private keydownHandler: (event: KeyboardEvent) => void;
+  private focusinHandler: (event: FocusEvent) => void;
+  private isDestroyed = false;
+
+  constructor(private options: ModalOptions) {
+    this.previousFocus = document.activeElement;
+    this.previousOverflow = document.body.style.overflow;
+
+    this.overlay = document.createElement("div");
+    Object.assign(this.overlay.style, {
+      position: "fixed",
+      inset: "0",
+      zIndex: "2147483647",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      background: "rgba(0, 0, 0, 0.5)",
+    });
+    this.overlay.addEventListener("click", (event) => {
+      if (event.target === this.overlay && this.options.closeOnBackdropClick) {
+        this.options.onDismiss();
+      }
+    });
+
+    this.dialog = document.createElement("div");
+    this.dialog.setAttribute("role", "dialog");
+    this.dialog.setAttribute("aria-modal", "true");
+    this.dialog.setAttribute("aria-label", options.ariaLabel);
+    this.dialog.tabIndex = -1;
+    Object.assign(this.dialog.style, {
+      position: "relative",
+      width: options.width || "500px",
+      height: options.height || "700px",
+      maxWidth: "100vw",
+      maxHeight: "100vh",
+      background: "#fff",
+      borderRadius: "8px",
+      overflow: "hidden",
+      boxShadow: "0 10px 40px rgba(0, 0, 0, 0.3)",
+    });
+    if (options.className) {
+      this.dialog.className = options.className;
+    }
+
+    this.closeButton = document.createElement("button");
+    this.closeButton.type = "button";
+    this.closeButton.setAttribute("aria-label", "Close");
+    this.closeButton.textContent = "×";
+    Object.assign(this.closeButton.style, {
+      position: "absolute",
+      top: "8px",
+      right: "8px",
+      zIndex: "1",
+      width: "32px",
+      height: "32px",
+      border: "none",
+      borderRadius: "50%",
+      background: "rgba(0, 0, 0, 0.06)",
+      fontSize: "20px",
+      lineHeight: "32px",
+      cursor: "pointer",
+    });
+    this.closeButton.addEventListener("click", () => this.options.onDismiss());
+
+    this.container = document.createElement("div");
+    Object.assign(this.container.style, { width: "100%", height: "100%" });
+
+    this.dialog.appendChild(this.closeButton);
+    this.dialog.appendChild(this.container);
+    this.overlay.appendChild(this.dialog);
+
+    this.keydownHandler = (event: KeyboardEvent) => this.handleKeydown(event);
+    this.focusinHandler = (event: FocusEvent) => {
+      // Pull focus back when it escapes the dialog (e.g. tabbing out of the iframe)
+      if (event.target instanceof Node && !this.dialog.contains(event.target)) {
+        this.closeButton.focus();
+      }
+    };
+  }
+
+  /**
+   * Attach the overlay to the page, lock scrolling and move focus into the dialog
+   */
+  open(): void {
+    document.body.appendChild(this.overlay);
+    document.body.style.overflow = "hidden";
+    document.addEventListener("keydown", this.keydownHandler);
+    document.addEventListener("focusin", this.focusinHandler);
+    this.dialog.focus();
+  }
+
+  /**
+   * Dismiss on Escape and keep Tab navigation inside the dialog
+   */
+  private handleKeydown(event: KeyboardEvent): void {
+    if (event.key === "Escape") {
+      event.preventDefault();
+      this.options.onDismiss();
+      return;
+    }
+
+    if (event.key !== "Tab") {
+      return;
+    }
+
+    const focusable = Array.from(
+      this.dialog.querySelectorAll<HTMLElement>("button, iframe")
+    );
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+
+    if (!first || !last) {
+      return;
+    }
+
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  }
+
+  /**
+   * Remove the overlay and restore scrolling and focus
+   */
+  destroy(): void {
+    if (this.isDestroyed) {
+      return;
+    }
+
+    this.isDestroyed = true;
+    document.removeEventListener("keydown", this.keydownHandler);
+    document.removeEventListener("focusin", this.focusinHandler);
+    this.overlay.remove();
+    document.body.style.overflow = this.previousOverflow;
+
+    if (this.previousFocus instanceof HTMLElement) {
+      this.previousFocus.focus();
+    }
+  }
+}
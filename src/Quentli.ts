@@ -2,32 +2,119 @@ import type {
   QuentliConfig,
   DisplayPopupOptions,
   DisplayEmbeddedOptions,
+  DisplayModalOptions,
   DisplayPageOptions,
   SetupSessionDisplayPopupOptions,
   SetupSessionDisplayEmbeddedOptions,
+  SetupSessionDisplayModalOptions,
   SetupSessionDisplayPageOptions,
-  QuentliAuthSession,
   QuentliMessage,
-  PaymentStatus,
+  QuentliMessageType,
   PaymentCompletionData,
   PaymentMethodAddedData,
+  PaymentSessionResult,
+  SetupSessionResult,
+  SessionResult,
+  CancelReason,
+  QuentliSessionHandle,
+  QuentliEvents,
+  HandleRedirectReturnOptions,
+  RedirectReturnResult,
+  SecurityViolationReason,
+  SessionType,
 } from "./types";
 import {
-  calculatePopupPosition,
-  generateWindowFeatures,
+  InstanceDestroyedError,
+  InvalidArgumentError,
+  OriginRejectedError,
+  isTerminalError,
+  SessionExpiredError,
+} from "./errors";
+import { Session, SessionCallbacks } from "./Session";
+import {
+  Emitter,
+  getOrigin,
+  getTimeUntilExpiry,
   Logger,
+  validateOptions,
   validateUrl,
   validateSession,
+  validatePrefill,
+  validateAppearance,
+  validateLocale,
+  validateAllowedOrigins,
+  validateHandshakeOptions,
+  resolveLocale,
   validateTarget,
+  validateFallback,
 } from "./utils";
 
 /**
- * Base callbacks interface for sessions
+ * Message types the hosted pages send to the merchant window
  */
-interface SessionCallbacks {
-  onComplete?: (data: any) => void;
-  onCancel?: () => void;
-  onError?: (error: Error) => void;
+const INBOUND_MESSAGE_TYPES: ReadonlySet<string> = new Set<QuentliMessageType>([
+  "READY",
+  "PAYMENT_COMPLETED",
+  "PAYMENT_METHOD_ADDED",
+  "PAYMENT_FAILED",
+  "PAYMENT_PROCESSING",
+  "STEP_CHANGED",
+  "ERROR",
+  "RESIZE",
+]);
+
+/**
+ * Time to wait for the hosted page to post READY
+ */
+const DEFAULT_HANDSHAKE_TIMEOUT_MS = 30_000;
+
+/**
+ * Query parameters carrying the result of a redirect-mode session back to the
+ * merchant page. The SDK marks `successUrl`/`cancelUrl` with the session type and
+ * result; the hosted page adds the session and payment method identifiers.
+ */
+const REDIRECT_PARAMS = {
+  sessionType: "quentli_session_type",
+  result: "quentli_result",
+  paymentSessionId: "quentli_payment_session_id",
+  paymentMethodId: "quentli_payment_method_id",
+  paymentMethodType: "quentli_payment_method_type",
+} as const;
+
+/**
+ * Display a session with the callbacks of checkout() and collect() and settle
+ * with its outcome. Callbacks passed in `options` are still invoked.
+ */
+function awaitSessionResult<TData>(
+  options: any,
+  sessionType: SessionType,
+  completionCallback: 'onComplete' | 'onPaymentMethodAdded',
+  display: (settlingOptions: any) => Promise<QuentliSessionHandle>
+): Promise<SessionResult<TData>> {
+  return new Promise((resolve, reject) => {
+    // Validate required arguments for JavaScript users
+    validateOptions(options, sessionType);
+
+    const settlingOptions = {
+      ...options,
+      [completionCallback]: (data: TData) => {
+        options[completionCallback]?.(data);
+        resolve({ status: 'complete', data });
+      },
+      onCancel: (reason: CancelReason) => {
+        options.onCancel?.(reason);
+        resolve({ status: 'canceled', reason });
+      },
+      onError: (error: Error) => {
+        options.onError?.(error);
+        if (isTerminalError(error)) {
+          reject(error);
+        }
+      },
+    };
+
+    display(settlingOptions).catch(reject);
+  });
 }
 
 /**
@@ -36,6 +123,7 @@ interface SessionCallbacks {
  * Provides methods to display payment sessions in different modes:
  * - displayPopup: Opens payment in a popup window
  * - displayEmbedded: Embeds payment in an iframe
+ * - displayModal: Shows payment in an iframe inside a modal overlay
  * - displayPage: Redirects to payment page
  */
 export class PaymentSessions {
@@ -46,25 +134,28 @@ export class PaymentSessions {
    *
    * @example
    * ```typescript
-   * await quentli.paymentSessions.displayPopup({
+   * const handle = await quentli.paymentSessions.displayPopup({
    *   url: paymentUrl,
    *   session: { accessToken: '...', csrfToken: '...' },
    *   onComplete: (data) => console.log('Payment completed:', data),
    *   width: 500,
    *   height: 700
    * });
+   *
+   * handle.on('status', (status) => console.log('Checkout status:', status));
    * ```
    */
-  async displayPopup(options: DisplayPopupOptions): Promise<void> {
+  async displayPopup(options: DisplayPopupOptions): Promise<QuentliSessionHandle> {
     // Validate required arguments for JavaScript users
-    if (!options || typeof options !== 'object') {
-      throw new Error('options is required and must be an object');
-    }
+    validateOptions(options, 'payment');
     
-    validateUrl((options as any).url);
-    validateSession((options as any).session);
+    validateUrl((options as any).url, 'url', 'payment');
+    validateSession((options as any).session, 'payment');
+    validatePrefill((options as any).prefill, 'payment');
+    validateAppearance((options as any).appearance, 'payment');
+    validateLocale((options as any).locale, 'payment');
+    validateFallback((options as any).fallback, (options as any).fallbackTarget, 'payment');
     
-    this.quentli.cleanup();
     return this.quentli.initSession({
       ...options,
       sessionType: 'payment',
@@ -77,27 +168,30 @@ export class PaymentSessions {
    *
    * @example
    * ```typescript
-   * const iframe = await quentli.paymentSessions.displayEmbedded({
+   * const handle = await quentli.paymentSessions.displayEmbedded({
    *   url: paymentUrl,
    *   session: { accessToken: '...', csrfToken: '...' },
    *   target: document.getElementById('payment-container'),
    *   onComplete: (data) => console.log('Payment completed:', data)
    * });
+   *
+   * // Remove the iframe when the user navigates away
+   * handle.close();
    * ```
    */
   async displayEmbedded(
     options: DisplayEmbeddedOptions
-  ): Promise<HTMLIFrameElement> {
+  ): Promise<QuentliSessionHandle> {
     // Validate required arguments for JavaScript users
-    if (!options || typeof options !== 'object') {
-      throw new Error('options is required and must be an object');
-    }
+    validateOptions(options, 'payment');
     
-    validateUrl((options as any).url);
-    validateSession((options as any).session);
-    validateTarget((options as any).target);
+    validateUrl((options as any).url, 'url', 'payment');
+    validateSession((options as any).session, 'payment');
+    validatePrefill((options as any).prefill, 'payment');
+    validateAppearance((options as any).appearance, 'payment');
+    validateLocale((options as any).locale, 'payment');
+    validateTarget((options as any).target, 'target', 'payment');
     
-    this.quentli.cleanup();
     return this.quentli.initSession({
       ...options,
       sessionType: 'payment',
@@ -105,26 +199,100 @@ export class PaymentSessions {
     });
   }
 
+  /**
+   * Display payment session in an iframe inside a modal overlay
+   *
+   * The modal locks page scrolling, traps focus and cancels the session
+   * when dismissed with its close button, the Escape key or the backdrop.
+   *
+   * @example
+   * ```typescript
+   * const handle = await quentli.paymentSessions.displayModal({
+   *   url: paymentUrl,
+   *   session: { accessToken: '...', csrfToken: '...' },
+   *   onComplete: (data) => console.log('Payment completed:', data),
+   *   onCancel: () => console.log('Modal dismissed')
+   * });
+   * ```
+   */
+  async displayModal(options: DisplayModalOptions): Promise<QuentliSessionHandle> {
+    // Validate required arguments for JavaScript users
+    validateOptions(options, 'payment');
+    
+    validateUrl((options as any).url, 'url', 'payment');
+    validateSession((options as any).session, 'payment');
+    validatePrefill((options as any).prefill, 'payment');
+    validateAppearance((options as any).appearance, 'payment');
+    validateLocale((options as any).locale, 'payment');
+    
+    return this.quentli.initSession({
+      ...options,
+      sessionType: 'payment',
+      displayMode: 'modal',
+    });
+  }
+
+  /**
+   * Display a payment session and wait for its outcome
+   *
+   * Opens a popup, or an embedded iframe when `target` is provided. The returned
+   * promise resolves once the payment is completed or canceled and rejects on error.
+   * Callbacks passed in `options` are still invoked.
+   *
+   * @example
+   * ```typescript
+   * const result = await quentli.paymentSessions.checkout({
+   *   url: paymentUrl,
+   *   session: { accessToken: '...', csrfToken: '...' },
+   * });
+   *
+   * if (result.status === 'complete') {
+   *   console.log('Payment completed:', result.data);
+   * }
+   * ```
+   */
+  checkout(
+    options: DisplayPopupOptions | DisplayEmbeddedOptions
+  ): Promise<PaymentSessionResult> {
+    return awaitSessionResult<PaymentCompletionData>(
+      options,
+      'payment',
+      'onComplete',
+      (settlingOptions) =>
+        'target' in settlingOptions
+          ? this.displayEmbedded(settlingOptions)
+          : this.displayPopup(settlingOptions)
+    );
+  }
+
   /**
    * Redirect to payment session page
    *
    * @example
    * ```typescript
    * quentli.paymentSessions.displayPage({
-   *   url: paymentUrl
+   *   url: paymentUrl,
+   *   successUrl: 'https://example.com/checkout/return',
+   *   cancelUrl: 'https://example.com/cart'
    * });
    * ```
    */
-  displayPage(options: DisplayPageOptions): void {
+  displayPage(options: DisplayPageOptions): QuentliSessionHandle {
     // Validate required arguments for JavaScript users
-    if (!options || typeof options !== 'object') {
-      throw new Error('options is required and must be an object');
-    }
+    validateOptions(options, 'payment');
     
-    validateUrl((options as any).url);
+    validateUrl((options as any).url, 'url', 'payment');
+    validateAppearance((options as any).appearance, 'payment');
+    validateLocale((options as any).locale, 'payment');
+    if ((options as any).successUrl !== undefined) {
+      validateUrl((options as any).successUrl, 'successUrl', 'payment');
+    }
+    if ((options as any).cancelUrl !== undefined) {
+      validateUrl((options as any).cancelUrl, 'cancelUrl', 'payment');
+    }
     
-    this.quentli.cleanup();
-    this.quentli.handleRedirectInternal({
+    this.quentli.closeSessions('replaced_by_new_session');
+    return this.quentli.handleRedirectInternal({
       ...options,
       sessionType: 'payment',
     });
@@ -137,6 +305,7 @@ export class PaymentSessions {
  * Provides methods to display setup sessions (for saving payment methods) in different modes:
  * - displayPopup: Opens setup in a popup window
  * - displayEmbedded: Embeds setup in an iframe
+ * - displayModal: Shows setup in an iframe inside a modal overlay
  * - displayPage: Redirects to setup page
  */
 export class SetupSessions {
@@ -147,25 +316,30 @@ export class SetupSessions {
    *
    * @example
    * ```typescript
-   * await quentli.setupSessions.displayPopup({
+   * const handle = await quentli.setupSessions.displayPopup({
    *   url: setupUrl,
    *   session: { accessToken: '...', csrfToken: '...' },
    *   onPaymentMethodAdded: (data) => console.log('Payment method added:', data),
    *   width: 500,
    *   height: 700
    * });
+   *
+   * handle.on('status', (status) => console.log('Setup status:', status));
    * ```
    */
-  async displayPopup(options: SetupSessionDisplayPopupOptions): Promise<void> {
+  async displayPopup(
+    options: SetupSessionDisplayPopupOptions
+  ): Promise<QuentliSessionHandle> {
     // Validate required arguments for JavaScript users
-    if (!options || typeof options !== 'object') {
-      throw new Error('options is required and must be an object');
-    }
+    validateOptions(options, 'setup');
     
-    validateUrl((options as any).url);
-    validateSession((options as any).session);
+    validateUrl((options as any).url, 'url', 'setup');
+    validateSession((options as any).session, 'setup');
+    validatePrefill((options as any).prefill, 'setup');
+    validateAppearance((options as any).appearance, 'setup');
+    validateLocale((options as any).locale, 'setup');
+    validateFallback((options as any).fallback, (options as any).fallbackTarget, 'setup');
     
-    this.quentli.cleanup();
     return this.quentli.initSession({
       ...options,
       sessionType: 'setup',
@@ -178,27 +352,30 @@ export class SetupSessions {
    *
    * @example
    * ```typescript
-   * const iframe = await quentli.setupSessions.displayEmbedded({
+   * const handle = await quentli.setupSessions.displayEmbedded({
    *   url: setupUrl,
    *   session: { accessToken: '...', csrfToken: '...' },
    *   target: document.getElementById('setup-container'),
    *   onPaymentMethodAdded: (data) => console.log('Payment method added:', data)
    * });
+   *
+   * // Remove the iframe when the user navigates away
+   * handle.close();
    * ```
    */
   async displayEmbedded(
     options: SetupSessionDisplayEmbeddedOptions
-  ): Promise<HTMLIFrameElement> {
+  ): Promise<QuentliSessionHandle> {
     // Validate required arguments for JavaScript users
-    if (!options || typeof options !== 'object') {
-      throw new Error('options is required and must be an object');
-    }
+    validateOptions(options, 'setup');
     
-    validateUrl((options as any).url);
-    validateSession((options as any).session);
-    validateTarget((options as any).target);
+    validateUrl((options as any).url, 'url', 'setup');
+    validateSession((options as any).session, 'setup');
+    validatePrefill((options as any).prefill, 'setup');
+    validateAppearance((options as any).appearance, 'setup');
+    validateLocale((options as any).locale, 'setup');
+    validateTarget((options as any).target, 'target', 'setup');
     
-    this.quentli.cleanup();
     return this.quentli.initSession({
       ...options,
       sessionType: 'setup',
@@ -206,26 +383,102 @@ export class SetupSessions {
     });
   }
 
+  /**
+   * Display setup session in an iframe inside a modal overlay
+   *
+   * The modal locks page scrolling, traps focus and cancels the session
+   * when dismissed with its close button, the Escape key or the backdrop.
+   *
+   * @example
+   * ```typescript
+   * const handle = await quentli.setupSessions.displayModal({
+   *   url: setupUrl,
+   *   session: { accessToken: '...', csrfToken: '...' },
+   *   onPaymentMethodAdded: (data) => console.log('Payment method added:', data),
+   *   onCancel: () => console.log('Modal dismissed')
+   * });
+   * ```
+   */
+  async displayModal(
+    options: SetupSessionDisplayModalOptions
+  ): Promise<QuentliSessionHandle> {
+    // Validate required arguments for JavaScript users
+    validateOptions(options, 'setup');
+    
+    validateUrl((options as any).url, 'url', 'setup');
+    validateSession((options as any).session, 'setup');
+    validatePrefill((options as any).prefill, 'setup');
+    validateAppearance((options as any).appearance, 'setup');
+    validateLocale((options as any).locale, 'setup');
+    
+    return this.quentli.initSession({
+      ...options,
+      sessionType: 'setup',
+      displayMode: 'modal',
+    });
+  }
+
+  /**
+   * Display a setup session and wait for its outcome
+   *
+   * Opens a popup, or an embedded iframe when `target` is provided. The returned
+   * promise resolves once a payment method is added or the setup is canceled and
+   * rejects on error. Callbacks passed in `options` are still invoked.
+   *
+   * @example
+   * ```typescript
+   * const result = await quentli.setupSessions.collect({
+   *   url: setupUrl,
+   *   session: { accessToken: '...', csrfToken: '...' },
+   * });
+   *
+   * if (result.status === 'complete') {
+   *   console.log('Payment method added:', result.data.paymentMethod);
+   * }
+   * ```
+   */
+  collect(
+    options: SetupSessionDisplayPopupOptions | SetupSessionDisplayEmbeddedOptions
+  ): Promise<SetupSessionResult> {
+    return awaitSessionResult<PaymentMethodAddedData>(
+      options,
+      'setup',
+      'onPaymentMethodAdded',
+      (settlingOptions) =>
+        'target' in settlingOptions
+          ? this.displayEmbedded(settlingOptions)
+          : this.displayPopup(settlingOptions)
+    );
+  }
+
   /**
    * Redirect to setup session page
    *
    * @example
    * ```typescript
    * quentli.setupSessions.displayPage({
-   *   url: setupUrl
+   *   url: setupUrl,
+   *   successUrl: 'https://example.com/billing/return',
+   *   cancelUrl: 'https://example.com/billing'
    * });
    * ```
    */
-  displayPage(options: SetupSessionDisplayPageOptions): void {
+  displayPage(options: SetupSessionDisplayPageOptions): QuentliSessionHandle {
     // Validate required arguments for JavaScript users
-    if (!options || typeof options !== 'object') {
-      throw new Error('options is required and must be an object');
-    }
+    validateOptions(options, 'setup');
     
-    validateUrl((options as any).url);
+    validateUrl((options as any).url, 'url', 'setup');
+    validateAppearance((options as any).appearance, 'setup');
+    validateLocale((options as any).locale, 'setup');
+    if ((options as any).successUrl !== undefined) {
+      validateUrl((options as any).successUrl, 'successUrl', 'setup');
+    }
+    if ((options as any).cancelUrl !== undefined) {
+      validateUrl((options as any).cancelUrl, 'cancelUrl', 'setup');
+    }
     
-    this.quentli.cleanup();
-    this.quentli.handleRedirectInternal({
+    this.quentli.closeSessions('replaced_by_new_session');
+    return this.quentli.handleRedirectInternal({
       ...options,
       sessionType: 'setup',
     });
@@ -236,7 +489,8 @@ export class SetupSessions {
  * Quentli - Core class for handling Quentli payment and setup sessions
  *
  * Manages the communication between merchant site and Quentli checkout/setup pages
- * using MessageChannel API for secure credential transfer.
+ * using MessageChannel API for secure credential transfer. Several sessions can be
+ * displayed at once, for example two embedded forms side by side.
  *
  * @example
  * ```typescript
@@ -258,20 +512,27 @@ export class SetupSessions {
  * ```
  */
 export class Quentli {
-  private messageChannel: MessageChannel | null = null;
-  private popupWindow: Window | null = null;
-  private iframeElement: HTMLIFrameElement | null = null;
+  private sessions = new Map<string, Session>();
   private messageHandler: ((event: MessageEvent) => void) | null = null;
-  private popupCheckInterval: number | null = null;
-  private authSession: QuentliAuthSession | null = null;
+  private sessionCounter = 0;
+  private config: QuentliConfig;
+  private allowedOrigins: string[] | null;
   private logger: Logger;
+  private events: Emitter<QuentliEvents>;
   private isDestroyed = false;
   private _paymentSessions: PaymentSessions;
   private _setupSessions: SetupSessions;
-  private sessionType: 'payment' | 'setup' | null = null;
 
   constructor(config: QuentliConfig = {}) {
+    // Validate required arguments for JavaScript users
+    validateLocale(config.locale);
+    validateAllowedOrigins(config.allowedOrigins);
+    validateHandshakeOptions(config.handshakeTimeoutMs, config.handshakeRetries);
+
+    this.config = config;
+    this.allowedOrigins = config.allowedOrigins?.map(getOrigin) ?? null;
     this.logger = new Logger(config.debug, "[Quentli]");
+    this.events = new Emitter(this.logger);
     this._paymentSessions = new PaymentSessions(this);
     this._setupSessions = new SetupSessions(this);
     this.logger.log("Quentli initialized");
@@ -284,12 +545,13 @@ export class Quentli {
    * ```typescript
    * quentli.paymentSessions.displayPopup({ ... })
    * quentli.paymentSessions.displayEmbedded({ ... })
+   * quentli.paymentSessions.displayModal({ ... })
    * quentli.paymentSessions.displayPage({ ... })
    * ```
    */
   get paymentSessions(): PaymentSessions {
     if (this.isDestroyed) {
-      throw new Error("Quentli instance has been destroyed");
+      throw new InstanceDestroyedError();
     }
     return this._paymentSessions;
   }
@@ -301,59 +563,192 @@ export class Quentli {
    * ```typescript
    * quentli.setupSessions.displayPopup({ ... })
    * quentli.setupSessions.displayEmbedded({ ... })
+   * quentli.setupSessions.displayModal({ ... })
    * quentli.setupSessions.displayPage({ ... })
    * ```
    */
   get setupSessions(): SetupSessions {
     if (this.isDestroyed) {
-      throw new Error("Quentli instance has been destroyed");
+      throw new InstanceDestroyedError();
     }
     return this._setupSessions;
   }
 
+  /**
+   * Subscribe to events from all sessions of this instance.
+   * Returns a function that removes the listener.
+   *
+   * @example
+   * ```typescript
+   * quentli.on('complete', ({ sessionId, data }) => analytics.track('checkout_complete', data));
+   * quentli.on('popupBlocked', () => showPopupBlockedBanner());
+   * ```
+   */
+  on<K extends keyof QuentliEvents>(
+    event: K,
+    listener: (payload: QuentliEvents[K]) => void
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Remove a listener added with on()
+   */
+  off<K extends keyof QuentliEvents>(
+    event: K,
+    listener: (payload: QuentliEvents[K]) => void
+  ): void {
+    this.events.off(event, listener);
+  }
+
   /**
    * Initialize a session (payment or setup)
    * @internal
    */
-  async initSession(options: any): Promise<any> {
+  async initSession(options: any): Promise<QuentliSessionHandle> {
     if (this.isDestroyed) {
-      throw new Error("Quentli instance has been destroyed");
+      throw new InstanceDestroyedError();
+    }
+
+    // Refuse to display sessions whose credentials are already expired
+    const remaining = getTimeUntilExpiry(options.session);
+    if (remaining !== null && remaining <= 0) {
+      throw new SessionExpiredError(options.sessionType);
+    }
+
+    const session = this.createSession(options);
+    this.logger.log(`Initiating ${session.id} session in ${options.displayMode} mode`);
+
+    // Close sessions that would compete for the same popup or container
+    this.closeConflictingSessions(options);
+
+    this.sessions.set(session.id, session);
+
+    // Set up message listener shared by all sessions
+    this.setupMessageListener();
+
+    // Append parent_origin to URL for security
+    const url = this.appendParentOrigin(options.url, this.getLocale(options));
+
+    // Handle based on display mode
+    switch (options.displayMode) {
+      case 'popup': {
+        const canFallback = !!options.fallback && options.fallback !== 'none';
+        const popup = await session.openPopup(url, options, canFallback);
+        return popup ?? this.openPopupFallback(options);
+      }
+      case 'iframe':
+        return session.openIframe(url, options);
+      case 'modal':
+        return session.openModal(url, options);
+      default:
+        session.close();
+        throw new InvalidArgumentError(
+          `Unknown display mode: ${options.displayMode}`,
+          'displayMode',
+          options.sessionType
+        );
+    }
+  }
+
+  /**
+   * Display a session whose popup was blocked in its fallback mode
+   */
+  private async openPopupFallback(options: any): Promise<QuentliSessionHandle> {
+    this.logger.log(`Popup blocked, using ${options.fallback} mode instead`);
+
+    if (options.fallback === 'iframe') {
+      // Popup dimensions are in pixels, so use the iframe defaults instead
+      return this.initSession({
+        ...options,
+        displayMode: 'iframe',
+        target: options.fallbackTarget,
+        width: undefined,
+        height: undefined,
+        fallback: 'none',
+      });
     }
 
-    this.sessionType = options.sessionType;
-    const sessionName = this.sessionType === 'payment' ? 'payment' : 'setup';
-    this.logger.log(`Initiating ${sessionName} session in ${options.displayMode} mode`);
+    this.closeSessions('replaced_by_new_session');
+    return this.handleRedirectInternal(options);
+  }
 
-    // Store session for later use
-    this.authSession = options.session;
+  /**
+   * Create the session object for a display call
+   */
+  private createSession(options: any): Session {
+    const sessionName = options.sessionType === 'payment' ? 'payment' : 'setup';
 
     // Prepare callbacks for this session
     const callbacks: SessionCallbacks = {
       onComplete: options.onComplete || options.onPaymentMethodAdded,
       onCancel: options.onCancel,
       onError: options.onError,
+      onReady: options.onReady,
+      onFailed: options.onFailed,
+      onProcessing: options.onProcessing,
+      onStepChange: options.onStepChange,
+      onExpired: options.onExpired,
+      refreshSession: options.refreshSession,
     };
 
-    // Set up message listener with callbacks
-    this.setupMessageListener(callbacks);
+    return new Session({
+      id: `${sessionName}_${++this.sessionCounter}`,
+      sessionType: options.sessionType,
+      displayMode: options.displayMode,
+      authSession: options.session ?? null,
+      // Only accept messages from the configured origins, or the session URL's origin
+      allowedOrigins: this.allowedOrigins ?? [getOrigin(options.url)],
+      callbacks,
+      events: this.events,
+      handshakeTimeoutMs: this.config.handshakeTimeoutMs ?? DEFAULT_HANDSHAKE_TIMEOUT_MS,
+      handshakeRetries: this.config.handshakeRetries ?? 0,
+      appearance: options.appearance,
+      locale: this.getLocale(options),
+      prefill: options.prefill,
+      debug: this.config.debug,
+      onClose: (closed) => this.removeSession(closed),
+    });
+  }
 
-    // Handle based on display mode
-    switch (options.displayMode) {
-      case 'popup':
-        return this.handlePopup(options, callbacks);
-      case 'iframe':
-        return this.handleIframe(options, callbacks);
-      case 'redirect':
-        return this.handleRedirect(options);
-      default:
-        throw new Error(`Unknown display mode: ${options.displayMode}`);
+  /**
+   * Close open sessions that a new session would replace: any other popup or
+   * modal, or a session embedded in the same target element
+   */
+  private closeConflictingSessions(options: any): void {
+    for (const session of Array.from(this.sessions.values())) {
+      const conflicts =
+        options.displayMode === 'popup' || options.displayMode === 'modal'
+          ? session.displayMode === options.displayMode
+          : session.target !== null && session.target === options.target;
+
+      if (conflicts) {
+        this.logger.log(`Replacing session ${session.id}`);
+        session.close('replaced_by_new_session');
+      }
+    }
+  }
+
+  /**
+   * Forget a closed session and stop listening once none remain
+   */
+  private removeSession(session: Session): void {
+    this.sessions.delete(session.id);
+
+    if (this.sessions.size === 0) {
+      this.removeMessageListener();
     }
   }
 
   /**
    * Set up the global message listener for postMessage events
+   * and route each message to the session whose window sent it
    */
-  private setupMessageListener(callbacks: SessionCallbacks): void {
+  private setupMessageListener(): void {
+    if (this.messageHandler) {
+      return;
+    }
+
     this.messageHandler = (event: MessageEvent) => {
       const message = event.data as QuentliMessage;
 
@@ -361,24 +756,10 @@ export class Quentli {
         return;
       }
 
-      this.logger.log("Received message:", message.type);
+      const session = this.findTrustedSession(event, message);
 
-      switch (message.type) {
-        case "READY":
-          this.handleReady(event, callbacks);
-          break;
-        case "PAYMENT_COMPLETED":
-          if (this.sessionType === 'payment') {
-            this.handleCompletion(event, callbacks);
-          }
-          break;
-        case "PAYMENT_METHOD_ADDED":
-          if (this.sessionType === 'setup') {
-            this.handleCompletion(event, callbacks);
-          }
-          break;
-        default:
-          this.logger.warn("Unknown message type:", message.type);
+      if (session) {
+        session.handleMessage(event);
       }
     };
 
@@ -386,292 +767,311 @@ export class Quentli {
   }
 
   /**
-   * Handle READY message from checkout/setup page
-   * Initiates the secure credential transfer via MessageChannel
+   * Remove the global message listener
    */
-  private handleReady(
+  private removeMessageListener(): void {
+    if (this.messageHandler) {
+      window.removeEventListener("message", this.messageHandler);
+      this.messageHandler = null;
+    }
+  }
+
+  /**
+   * Find the session whose popup or iframe sent a message, verifying that the
+   * message comes from one of that session's allowed origins
+   */
+  private findTrustedSession(
     event: MessageEvent,
-    callbacks: SessionCallbacks
-  ): void {
-    this.logger.log("Handling READY event");
+    message: QuentliMessage
+  ): Session | null {
+    const session = Array.from(this.sessions.values()).find(
+      (candidate) =>
+        candidate.targetWindow !== null && event.source === candidate.targetWindow
+    );
 
-    const targetWindow = this.popupWindow || this.iframeElement?.contentWindow;
+    if (!session) {
+      this.reportSecurityViolation("UNEXPECTED_SOURCE", event, message);
+      return null;
+    }
 
-    if (!targetWindow) {
-      this.logger.error("No target window available");
-      return;
+    if (!session.allowedOrigins.includes(event.origin)) {
+      this.reportSecurityViolation("ORIGIN_NOT_ALLOWED", event, message);
+      return null;
     }
 
-    if (!this.authSession) {
-      this.logger.error("No auth session available");
+    return session;
+  }
+
+  /**
+   * Log a rejected message and notify the onSecurityViolation hook
+   */
+  private reportSecurityViolation(
+    reason: SecurityViolationReason,
+    event: MessageEvent,
+    message: QuentliMessage
+  ): void {
+    // Ignore unrelated postMessage traffic from other scripts on the page
+    if (!INBOUND_MESSAGE_TYPES.has(message.type)) {
       return;
     }
 
-    try {
-      // Create a new MessageChannel for secure communication
-      this.messageChannel = new MessageChannel();
-
-      // Listen for messages on port1
-      this.messageChannel.port1.onmessage = (e: MessageEvent) => {
-        const message = e.data as QuentliMessage;
-        this.logger.log("Received message on MessageChannel:", message.type);
-
-        if (message.type === "PAYMENT_COMPLETED" && this.sessionType === 'payment') {
-          this.handleCompletion(e, callbacks);
-        } else if (message.type === "PAYMENT_METHOD_ADDED" && this.sessionType === 'setup') {
-          this.handleCompletion(e, callbacks);
-        }
-      };
+    this.logger.warn(
+      `Rejected ${message.type} message from ${event.origin}:`,
+      reason
+    );
 
-      // Send credentials and transfer port2 to the payment/setup window
-      targetWindow.postMessage(
-        {
-          type: "INIT",
-          accessToken: this.authSession.accessToken,
-          csrfToken: this.authSession.csrfToken,
-        },
-        event.origin,
-        [this.messageChannel.port2] // Transfer port2
-      );
-
-      this.logger.log("Sent INIT message with credentials");
+    try {
+      this.config.onSecurityViolation?.({
+        reason,
+        origin: event.origin,
+        messageType: String(message.type),
+        error: new OriginRejectedError(event.origin),
+      });
     } catch (error) {
-      this.logger.error("Error handling READY:", error);
-      callbacks.onError?.(
-        error instanceof Error
-          ? error
-          : new Error("Failed to initialize session")
-      );
+      this.logger.error("Error in onSecurityViolation callback:", error);
     }
   }
 
   /**
-   * Handle completion message (PAYMENT_COMPLETED or PAYMENT_METHOD_ADDED)
+   * @internal
+   * Internal handler for redirect display - called from PaymentSessions and SetupSessions
    */
-  private handleCompletion(
-    event: MessageEvent,
-    callbacks: SessionCallbacks
-  ): void {
-    const message = event.data as QuentliMessage;
-    
-    if (this.sessionType === 'payment') {
-      this.logger.log("Payment completed with status:", message.status);
-      const status = message.status as PaymentStatus;
-
-      if (status === "COMPLETE") {
-        if (!callbacks.onComplete) {
-          this.logger.log("No onComplete callback provided");
-        }
-        callbacks.onComplete?.({
-          status,
-          paymentSessionId: message.paymentSessionId as string | undefined,
-          ...message,
-        } as PaymentCompletionData);
-        
-        // Clean up all resources
-        this.cleanup();
-        
-      } else if (status === "CANCELED") {
-        callbacks.onCancel?.();
-        
-        // Clean up all resources
-        this.cleanup();
-      }
-    } else if (this.sessionType === 'setup') {
-      this.logger.log("Payment method added:", message.paymentMethod);
-      
-      if (!callbacks.onComplete) {
-        this.logger.log("No onPaymentMethodAdded callback provided");
-      }
-      
-      callbacks.onComplete?.({
-        paymentMethod: message.paymentMethod,
-        ...message,
-      } as PaymentMethodAddedData);
-      
-      // Clean up all resources
-      this.cleanup();
+  handleRedirectInternal(options: any): QuentliSessionHandle {
+    if (this.isDestroyed) {
+      throw new InstanceDestroyedError();
     }
+
+    this.logger.log("Redirecting to page");
+
+    // The page navigates away, so the session is not tracked for messages
+    const session = this.createSession({ ...options, displayMode: 'redirect' });
+    return session.openRedirect(this.appendReturnUrls(options));
   }
 
   /**
-   * Handle popup display mode
+   * Parse the result of a redirect-mode session from the page the hosted page
+   * returned to, deliver it through the same callbacks and events as the popup
+   * and iframe modes, and remove the result parameters from the browser history.
+   *
+   * Returns null when the URL doesn't carry a Quentli session result.
+   *
+   * The result comes from query parameters that anyone can put in a link, so
+   * it is not authenticated: use it to update the page, but confirm the
+   * payment on your backend with a webhook or `retrieveSession()` before
+   * fulfilling an order.
+   *
+   * @example
+   * ```typescript
+   * // On the page passed as successUrl/cancelUrl to displayPage()
+   * const returned = quentli.handleRedirectReturn();
+   *
+   * if (returned?.result.status === 'complete') {
+   *   console.log('Completed:', returned.result.data);
+   * }
+   * ```
    */
-  private async handlePopup(
-    options: any,
-    callbacks: SessionCallbacks
-  ): Promise<void> {
-    const width = options.width || 500;
-    const height = options.height || 700;
-    const { left, top } = calculatePopupPosition(width, height);
-    const features = generateWindowFeatures(width, height, left, top);
+  handleRedirectReturn(
+    options: HandleRedirectReturnOptions = {}
+  ): RedirectReturnResult | null {
+    if (this.isDestroyed) {
+      throw new InstanceDestroyedError();
+    }
 
-    try {
-      // Append parent_origin to URL for security
-      const urlWithOrigin = this.appendParentOrigin(options.url);
-      
-      this.popupWindow = window.open(
-        urlWithOrigin,
-        options.windowName || `quentli_${this.sessionType}_session`,
-        features
-      );
-
-      if (!this.popupWindow) {
-        throw new Error(
-          "Failed to open popup window. Please allow popups for this site."
-        );
-      }
+    // Validate required arguments for JavaScript users
+    validateOptions(options);
+    if (options.url !== undefined) {
+      validateUrl(options.url);
+    }
 
-      // Poll for popup close
-      this.popupCheckInterval = window.setInterval(() => {
-        if (this.popupWindow?.closed) {
-          this.logger.log("Popup window closed by user");
-          callbacks.onCancel?.();
-          this.cleanup();
-        }
-      }, 500);
+    const isCurrentLocation = options.url === undefined;
+    const url = new URL(options.url ?? window.location.href);
+    const sessionType = url.searchParams.get(REDIRECT_PARAMS.sessionType);
+    const result = url.searchParams.get(REDIRECT_PARAMS.result);
 
-      this.logger.log("Popup opened successfully");
-    } catch (error) {
-      this.logger.error("Error opening popup:", error);
-      const err =
-        error instanceof Error
-          ? error
-          : new Error("Failed to open popup window");
-      callbacks.onError?.(err);
-      throw err;
+    if (
+      (sessionType !== 'payment' && sessionType !== 'setup') ||
+      (result !== 'complete' && result !== 'canceled')
+    ) {
+      this.logger.log("No redirect result found in URL");
+      return null;
     }
+
+    if (
+      sessionType === 'setup' &&
+      result === 'complete' &&
+      !url.searchParams.get(REDIRECT_PARAMS.paymentMethodId)
+    ) {
+      this.logger.warn("Ignoring setup redirect result without a payment method");
+      return null;
+    }
+
+    const message = this.parseRedirectMessage(url, sessionType, result);
+
+    if (isCurrentLocation) {
+      this.stripRedirectParams(url);
+    }
+
+    const session = this.createSession({
+      ...options,
+      url: url.href,
+      sessionType,
+      displayMode: 'redirect',
+    });
+
+    let outcome: RedirectReturnResult | null = null;
+    session.on('complete', (data) => {
+      outcome = { sessionType, result: { status: 'complete', data } } as RedirectReturnResult;
+    });
+    session.on('cancel', (reason) => {
+      outcome = { sessionType, result: { status: 'canceled', reason } };
+    });
+
+    session.handleRedirectReturn(message);
+
+    return outcome;
   }
 
   /**
-   * Handle iframe display mode
+   * Build the message the popup and iframe modes would have received
+   * from the result parameters of a return URL
    */
-  private async handleIframe(
-    options: any,
-    callbacks: SessionCallbacks
-  ): Promise<HTMLIFrameElement> {
-    try {
-      const iframe = document.createElement("iframe");
-      
-      // Append parent_origin to URL for security
-      iframe.src = this.appendParentOrigin(options.url);
-      iframe.style.border = "none";
-      iframe.style.width = options.width || "100%";
-      iframe.style.height = options.height || "600px";
-      iframe.allow = options.allow || "payment";
-
-      if (options.className) {
-        iframe.className = options.className;
-      }
+  private parseRedirectMessage(
+    url: URL,
+    sessionType: SessionType,
+    result: 'complete' | 'canceled'
+  ): QuentliMessage {
+    const params = url.searchParams;
+    const status = result === 'complete' ? 'COMPLETE' : 'CANCELED';
 
-      // Remove all existing children from target
-      while (options.target.firstChild) {
-        try {
-          options.target.removeChild(options.target.firstChild);
-        } catch (error) {
-          this.logger.error("Error removing iframe child:", error);
-        }
-      }
+    if (sessionType === 'payment') {
+      return {
+        type: 'PAYMENT_COMPLETED',
+        status,
+        paymentSessionId: params.get(REDIRECT_PARAMS.paymentSessionId) ?? undefined,
+      };
+    }
+
+    // Completed setup returns are checked for a payment method beforehand
+    const paymentMethodId = params.get(REDIRECT_PARAMS.paymentMethodId);
+    return {
+      type: 'PAYMENT_METHOD_ADDED',
+      status,
+      paymentMethod: paymentMethodId
+        ? {
+            id: paymentMethodId,
+            type: params.get(REDIRECT_PARAMS.paymentMethodType) ?? '',
+          }
+        : undefined,
+    };
+  }
 
-      options.target.appendChild(iframe);
-      this.iframeElement = iframe;
+  /**
+   * Remove the Quentli result parameters from the current history entry
+   */
+  private stripRedirectParams(url: URL): void {
+    const cleanUrl = new URL(url.href);
 
-      this.logger.log("Iframe created and appended successfully");
+    for (const key of Object.values(REDIRECT_PARAMS)) {
+      cleanUrl.searchParams.delete(key);
+    }
 
-      return iframe;
+    try {
+      window.history.replaceState(window.history.state, '', cleanUrl.toString());
     } catch (error) {
-      this.logger.error("Error opening iframe:", error);
-      const err =
-        error instanceof Error ? error : new Error("Failed to open iframe");
-      callbacks.onError?.(err);
-      throw err;
+      this.logger.warn("Failed to remove redirect parameters from URL:", error);
     }
   }
 
   /**
-   * Handle redirect display mode
+   * Locale of a display call: its own override, else the instance's locale
+   * @internal
    */
-  private handleRedirect(options: any): void {
-    this.logger.log("Redirecting to:", options.url);
-    window.location.href = options.url;
+  private getLocale(options: any): string | undefined {
+    return resolveLocale(options.locale ?? this.config.locale);
   }
 
   /**
+   * Append parent_origin query parameter to URL for secure message validation,
+   * along with the locale so the page renders in it before the handshake
    * @internal
-   * Internal handler for redirect display - called from PaymentSessions and SetupSessions
    */
-  handleRedirectInternal(options: any): void {
-    if (this.isDestroyed) {
-      throw new Error("Quentli instance has been destroyed");
-    }
+  private appendParentOrigin(url: string, locale?: string): string {
+    return this.appendQueryParams(url, {
+      parent_origin: window.location.origin,
+      locale,
+    });
+  }
 
-    this.logger.log("Redirecting to page");
-    return this.handleRedirect(options);
+  /**
+   * Append success_url and cancel_url query parameters for redirect mode, each
+   * marked with the session type and result so handleRedirectReturn() can parse it
+   * @internal
+   */
+  private appendReturnUrls(options: any): string {
+    const markReturnUrl = (returnUrl: string | undefined, result: string) =>
+      returnUrl &&
+      this.appendQueryParams(returnUrl, {
+        [REDIRECT_PARAMS.sessionType]: options.sessionType,
+        [REDIRECT_PARAMS.result]: result,
+      });
+
+    return this.appendQueryParams(options.url, {
+      success_url: markReturnUrl(options.successUrl, 'complete'),
+      cancel_url: markReturnUrl(options.cancelUrl, 'canceled'),
+      // The page can't receive INIT after a redirect, so pass the appearance in the URL
+      appearance: options.appearance && JSON.stringify(options.appearance),
+      locale: this.getLocale(options),
+    });
   }
 
   /**
-   * Append parent_origin query parameter to URL for secure message validation
+   * Append query parameters to a URL, skipping undefined values and
+   * parameters already present
    * @internal
    */
-  private appendParentOrigin(url: string): string {
+  private appendQueryParams(
+    url: string,
+    params: Record<string, string | undefined>
+  ): string {
     try {
-      const parentOrigin = window.location.origin;
       const urlObj = new URL(url);
-      
-      // Only add if not already present
-      if (!urlObj.searchParams.has('parent_origin')) {
-        urlObj.searchParams.set('parent_origin', parentOrigin);
-        this.logger.log(`Added parent_origin=${parentOrigin} to URL`);
+
+      for (const [key, value] of Object.entries(params)) {
+        // Only add if not already present
+        if (value !== undefined && !urlObj.searchParams.has(key)) {
+          urlObj.searchParams.set(key, value);
+          this.logger.log(`Added ${key}=${value} to URL`);
+        }
       }
-      
+
       return urlObj.toString();
     } catch (error) {
-      this.logger.warn("Failed to append parent_origin to URL:", error);
+      this.logger.warn(`Failed to append ${Object.keys(params).join(', ')} to URL:`, error);
       return url; // Return original URL if parsing fails
     }
   }
 
   /**
-   * Clean up windows, iframes, and intervals
+   * Close all open sessions: windows, iframes, intervals and channels.
+   * Sessions that haven't ended are canceled with reason `'destroyed'`.
    */
   public cleanup(): void {
-    this.logger.log("Cleaning up resources");
-
-    // Close popup window
-    if (this.popupWindow && !this.popupWindow.closed) {
-      this.popupWindow.close();
-      this.popupWindow = null;
-    }
-
-    // Remove iframe
-    if (this.iframeElement) {
-      this.iframeElement.remove();
-      this.iframeElement = null;
-    }
+    this.closeSessions('destroyed');
+  }
 
-    // Clear popup check interval
-    if (this.popupCheckInterval !== null) {
-      clearInterval(this.popupCheckInterval);
-      this.popupCheckInterval = null;
-    }
+  /**
+   * Close all open sessions, canceling those that haven't ended with `reason`
+   * @internal
+   */
+  closeSessions(reason: CancelReason): void {
+    this.logger.log("Cleaning up resources");
 
-    // Close MessageChannel
-    if (this.messageChannel) {
-      this.messageChannel.port1.close();
-      this.messageChannel = null;
+    for (const session of Array.from(this.sessions.values())) {
+      session.close(reason);
     }
 
     // Remove message listener
-    if (this.messageHandler) {
-      window.removeEventListener("message", this.messageHandler);
-      this.messageHandler = null;
-    }
-
-    // Clear auth session
-    this.authSession = null;
-
-    // Clear session type
-    this.sessionType = null;
+    this.removeMessageListener();
   }
 
   /**
@@ -686,6 +1086,7 @@ export class Quentli {
     this.logger.log("Destroying Quentli instance");
 
     this.cleanup();
+    this.events.clear();
 
     this.isDestroyed = true;
   }
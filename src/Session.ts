@@ -0,0 +1,1128 @@
+import type {
+  CancelReason,
+  DisplayMode,
+  MessageTransport,
+  PaymentCompletionData,
+  PaymentFailureData,
+  PaymentMethodAddedData,
+  PaymentProcessingData,
+  PaymentStatus,
+  QuentliAppearance,
+  QuentliAuthSession,
+  QuentliCapability,
+  QuentliEventBase,
+  QuentliEvents,
+  QuentliLocale,
+  QuentliMessage,
+  QuentliPrefill,
+  QuentliSessionHandle,
+  SessionHandleEvents,
+  SessionStatus,
+  SessionType,
+  StepChangeData,
+} from "./types";
+import {
+  HandshakeTimeoutError,
+  InvalidArgumentError,
+  PopupBlockedError,
+  RemoteError,
+  SessionExpiredError,
+} from "./errors";
+import { Modal } from "./Modal";
+import { PROTOCOL_VERSION, SDK_CAPABILITIES, SDK_VERSION } from "./version";
+import {
+  calculatePopupPosition,
+  Emitter,
+  generateWindowFeatures,
+  getTimeUntilExpiry,
+  Logger,
+  resolveLocale,
+  validateAppearance,
+  validateLocale,
+  validateSession,
+} from "./utils";
+
+/**
+ * Base callbacks interface for sessions
+ */
+export interface SessionCallbacks {
+  onComplete?: (data: any) => void;
+  onCancel?: (reason: CancelReason) => void;
+  onError?: (error: Error) => void;
+  onReady?: () => void;
+  onFailed?: (data: PaymentFailureData) => void;
+  onProcessing?: (data: PaymentProcessingData) => void;
+  onStepChange?: (data: StepChangeData) => void;
+  onExpired?: () => void;
+  refreshSession?: () => Promise<QuentliAuthSession>;
+}
+
+/**
+ * Options used to create a Session
+ * @internal
+ */
+export interface SessionInit {
+  id: string;
+  sessionType: SessionType;
+  displayMode: DisplayMode;
+  authSession: QuentliAuthSession | null;
+  allowedOrigins: string[];
+  callbacks: SessionCallbacks;
+  /**
+   * Emitter of the owning Quentli instance
+   */
+  events: Emitter<QuentliEvents>;
+  /**
+   * Time to wait for READY; 0 disables the timeout
+   */
+  handshakeTimeoutMs: number;
+  /**
+   * Iframe reloads to attempt when READY times out
+   */
+  handshakeRetries: number;
+  /**
+   * Appearance sent to the hosted page with INIT
+   */
+  appearance?: QuentliAppearance;
+  /**
+   * Resolved locale sent to the hosted page with INIT
+   */
+  locale?: string;
+  /**
+   * Customer details sent over the MessageChannel after INIT
+   */
+  prefill?: QuentliPrefill;
+  debug?: boolean;
+  /**
+   * Invoked once the session has released its resources
+   */
+  onClose: (session: Session) => void;
+}
+
+/**
+ * Bounds and callback for auto-resizing an embedded iframe
+ */
+interface AutoResizeOptions {
+  minHeight?: number;
+  maxHeight?: number;
+  onResize?: (height: number) => void;
+}
+
+/**
+ * How long before expiry refreshSession is called
+ */
+const REFRESH_LEAD_MS = 30_000;
+
+/**
+ * Longest delay setTimeout supports; longer expiries are rescheduled in steps
+ */
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+/**
+ * Statuses after which a session can no longer change
+ */
+const TERMINAL_STATUSES: ReadonlySet<SessionStatus> = new Set<SessionStatus>([
+  "completed",
+  "canceled",
+  "errored",
+]);
+
+/**
+ * Session - State and message handling for a single payment or setup session
+ *
+ * Owns the popup window or iframe, the MessageChannel used for the secure
+ * credential transfer and the callbacks of one display call. Several sessions
+ * can be open at the same time on a Quentli instance. Exposed to integrators
+ * as a QuentliSessionHandle.
+ *
+ * @internal
+ */
+export class Session implements QuentliSessionHandle {
+  readonly id: string;
+  readonly sessionType: SessionType;
+  readonly displayMode: DisplayMode;
+  readonly allowedOrigins: string[];
+  private _status: SessionStatus = "opening";
+  private popupWindow: Window | null = null;
+  private iframeElement: HTMLIFrameElement | null = null;
+  private iframeTarget: HTMLElement | null = null;
+  private modal: Modal | null = null;
+  private autoResize: AutoResizeOptions | null = null;
+  private messageChannel: MessageChannel | null = null;
+  private pageCapabilities: ReadonlySet<QuentliCapability> | null = null;
+  private appearance: QuentliAppearance | undefined;
+  private locale: string | undefined;
+  private prefill: QuentliPrefill | undefined;
+  private popupCheckInterval: number | null = null;
+  private expiryTimeout: number | null = null;
+  private handshakeTimeout: number | null = null;
+  private handshakeTimeoutMs: number;
+  private handshakeRetriesLeft: number;
+  private authSession: QuentliAuthSession | null;
+  private callbacks: SessionCallbacks;
+  private emitter: Emitter<SessionHandleEvents>;
+  private events: Emitter<QuentliEvents>;
+  private logger: Logger;
+  private onClose: (session: Session) => void;
+  private isClosed = false;
+
+  constructor(init: SessionInit) {
+    this.id = init.id;
+    this.sessionType = init.sessionType;
+    this.displayMode = init.displayMode;
+    this.allowedOrigins = init.allowedOrigins;
+    this.authSession = init.authSession;
+    this.callbacks = init.callbacks;
+    this.onClose = init.onClose;
+    this.events = init.events;
+    this.handshakeTimeoutMs = init.handshakeTimeoutMs;
+    this.handshakeRetriesLeft = init.handshakeRetries;
+    this.appearance = init.appearance;
+    this.locale = init.locale;
+    this.prefill = init.prefill;
+    this.logger = new Logger(init.debug, `[Quentli:${init.id}]`);
+    this.emitter = new Emitter(this.logger);
+  }
+
+  /**
+   * Current lifecycle status
+   */
+  get status(): SessionStatus {
+    return this._status;
+  }
+
+  /**
+   * Iframe hosting the session, when embedded
+   */
+  get element(): HTMLIFrameElement | null {
+    return this.iframeElement;
+  }
+
+  /**
+   * Window of the hosted page (popup or iframe content window)
+   */
+  get window(): Window | null {
+    return this.targetWindow;
+  }
+
+  /**
+   * Window of the hosted page (popup or iframe content window)
+   */
+  get targetWindow(): Window | null {
+    return this.popupWindow || this.iframeElement?.contentWindow || null;
+  }
+
+  /**
+   * Element the session iframe is mounted in, if embedded
+   */
+  get target(): HTMLElement | null {
+    return this.iframeTarget;
+  }
+
+  /**
+   * Subscribe to a session event
+   *
+   * @example
+   * ```typescript
+   * const handle = await quentli.paymentSessions.displayPopup({ ... });
+   * handle.on('status', (status) => setPayButtonDisabled(status !== 'completed'));
+   * ```
+   */
+  on<K extends keyof SessionHandleEvents>(
+    event: K,
+    listener: (payload: SessionHandleEvents[K]) => void
+  ): () => void {
+    return this.emitter.on(event, listener);
+  }
+
+  /**
+   * Bring the popup window (or the iframe) into focus
+   */
+  focus(): void {
+    if (this.popupWindow && !this.popupWindow.closed) {
+      this.popupWindow.focus();
+    } else {
+      this.iframeElement?.focus();
+    }
+  }
+
+  /**
+   * Send a new appearance to the hosted page as SET_APPEARANCE. Until the
+   * handshake, it replaces the appearance that INIT will carry.
+   * @throws {InvalidArgumentError} If appearance is invalid
+   */
+  updateAppearance(appearance: QuentliAppearance): void {
+    // Validate required arguments for JavaScript users
+    if (appearance === undefined) {
+      throw new InvalidArgumentError(
+        "appearance is required",
+        "appearance",
+        this.sessionType
+      );
+    }
+    validateAppearance(appearance, this.sessionType);
+
+    if (this.isClosed) {
+      this.logger.warn("Ignoring appearance update, session is closed");
+      return;
+    }
+
+    this.appearance = appearance;
+
+    // Before the handshake, the new appearance goes out with INIT
+    if (!this.messageChannel) {
+      return;
+    }
+
+    if (!this.supports("theme")) {
+      this.logger.warn("Hosted page does not support appearance updates");
+      return;
+    }
+
+    this.messageChannel.port1.postMessage({ type: "SET_APPEARANCE", appearance });
+    this.logger.log("Sent appearance update");
+  }
+
+  /**
+   * Switch the hosted page to another locale with SET_LOCALE. 'auto' is
+   * resolved to the browser's language first; an unchanged locale is not sent.
+   * @throws {InvalidArgumentError} If locale is invalid
+   */
+  setLocale(locale: QuentliLocale): void {
+    // Validate required arguments for JavaScript users
+    if (locale === undefined) {
+      throw new InvalidArgumentError("locale is required", "locale", this.sessionType);
+    }
+    validateLocale(locale, this.sessionType);
+
+    if (this.isClosed) {
+      this.logger.warn("Ignoring locale change, session is closed");
+      return;
+    }
+
+    const resolved = resolveLocale(locale);
+    if (!resolved || resolved === this.locale) {
+      return;
+    }
+
+    this.locale = resolved;
+
+    // Before the handshake, the new locale goes out with INIT
+    if (!this.messageChannel) {
+      return;
+    }
+
+    if (!this.supports("locale")) {
+      this.logger.warn("Hosted page does not support locale changes");
+      return;
+    }
+
+    this.messageChannel.port1.postMessage({ type: "SET_LOCALE", locale: resolved });
+    this.logger.log(`Sent locale change to ${resolved}`);
+  }
+
+  /**
+   * Open the hosted page in a popup window
+   *
+   * When the popup is blocked and `canFallback` is set, the session is closed
+   * without reporting an error and null is returned so another mode can be used.
+   */
+  async openPopup(
+    url: string,
+    options: any,
+    canFallback = false
+  ): Promise<this | null> {
+    const width = options.width || 500;
+    const height = options.height || 700;
+    const { left, top } = calculatePopupPosition(width, height);
+    const features = generateWindowFeatures(width, height, left, top);
+
+    try {
+      this.popupWindow = window.open(
+        url,
+        options.windowName || `quentli_${this.sessionType}_session`,
+        features
+      );
+
+      if (!this.popupWindow) {
+        this.events.emit("popupBlocked", this.eventBase());
+
+        if (canFallback) {
+          this.logger.warn("Popup blocked, falling back to another display mode");
+          this.release();
+          return null;
+        }
+
+        throw new PopupBlockedError(this.sessionType);
+      }
+
+      // Poll for popup close
+      this.popupCheckInterval = window.setInterval(() => {
+        if (this.popupWindow?.closed) {
+          this.logger.log("Popup window closed by user");
+          this.cancel("popup_closed");
+        }
+      }, 500);
+
+      this.handleOpened();
+      this.logger.log("Popup opened successfully");
+      return this;
+    } catch (error) {
+      this.logger.error("Error opening popup:", error);
+      const err =
+        error instanceof Error
+          ? error
+          : new Error("Failed to open popup window");
+      this.fail(err);
+      throw err;
+    }
+  }
+
+  /**
+   * Mount the hosted page in an iframe inside `options.target`
+   */
+  async openIframe(url: string, options: any): Promise<this> {
+    try {
+      const iframe = document.createElement("iframe");
+
+      iframe.src = url;
+      iframe.style.border = "none";
+      iframe.style.width = options.width || "100%";
+      iframe.style.height = options.height || "600px";
+      iframe.allow = options.allow || "payment";
+
+      if (options.className) {
+        iframe.className = options.className;
+      }
+
+      // Remove all existing children from target
+      while (options.target.firstChild) {
+        try {
+          options.target.removeChild(options.target.firstChild);
+        } catch (error) {
+          this.logger.error("Error removing iframe child:", error);
+        }
+      }
+
+      options.target.appendChild(iframe);
+      this.iframeElement = iframe;
+      this.iframeTarget = options.target;
+
+      if (options.autoResize) {
+        this.autoResize = {
+          minHeight: options.minHeight,
+          maxHeight: options.maxHeight,
+          onResize: options.onResize,
+        };
+      }
+
+      this.handleOpened();
+      this.logger.log("Iframe created and appended successfully");
+
+      return this;
+    } catch (error) {
+      this.logger.error("Error opening iframe:", error);
+      const err =
+        error instanceof Error ? error : new Error("Failed to open iframe");
+      this.fail(err);
+      throw err;
+    }
+  }
+
+  /**
+   * Mount the hosted page in an iframe inside a managed modal overlay.
+   * Dismissing the modal cancels the session.
+   */
+  async openModal(url: string, options: any): Promise<this> {
+    try {
+      this.modal = new Modal({
+        width: options.width,
+        height: options.height,
+        className: options.className,
+        ariaLabel:
+          options.ariaLabel ||
+          (this.sessionType === 'payment' ? "Checkout" : "Add payment method"),
+        closeOnBackdropClick: options.closeOnBackdropClick ?? true,
+        onDismiss: () => {
+          this.logger.log("Modal dismissed by user");
+          this.cancel("user_canceled");
+        },
+      });
+      this.modal.open();
+    } catch (error) {
+      this.logger.error("Error opening modal:", error);
+      const err =
+        error instanceof Error ? error : new Error("Failed to open modal");
+      this.fail(err);
+      throw err;
+    }
+
+    return this.openIframe(url, {
+      allow: options.allow,
+      target: this.modal.container,
+      width: "100%",
+      height: "100%",
+    });
+  }
+
+  /**
+   * Navigate the current page to the hosted page
+   */
+  openRedirect(url: string): this {
+    this.logger.log("Redirecting to:", url);
+    window.location.href = url;
+    return this;
+  }
+
+  /**
+   * Handle a message posted to the merchant window by this session's hosted page.
+   * Origin and source are verified by the Quentli instance before routing.
+   */
+  handleMessage(event: MessageEvent): void {
+    const message = event.data as QuentliMessage;
+
+    this.logger.log("Received message:", message.type);
+    this.emitMessage(message, "window");
+
+    // Once the MessageChannel is established the hosted page reports over the
+    // port; copies posted to the window would be delivered twice
+    if (message.type !== "READY" && this.messageChannel) {
+      this.logger.log(`Ignoring ${message.type} on window, MessageChannel is established`);
+      return;
+    }
+
+    switch (message.type) {
+      case "READY":
+        this.handleReady(event);
+        break;
+      case "PAYMENT_COMPLETED":
+        if (this.sessionType === 'payment') {
+          this.handleCompletion(message, "window");
+        }
+        break;
+      case "PAYMENT_METHOD_ADDED":
+        if (this.sessionType === 'setup') {
+          this.handleCompletion(message, "window");
+        }
+        break;
+      case "PAYMENT_FAILED":
+      case "PAYMENT_PROCESSING":
+      case "STEP_CHANGED":
+      case "ERROR":
+        this.handleLifecycleMessage(message);
+        break;
+      default:
+        this.logger.warn("Unknown message type:", message.type);
+    }
+  }
+
+  /**
+   * Deliver the result of a redirect-mode session, parsed from the return URL
+   * into the same message the popup and iframe modes receive
+   */
+  handleRedirectReturn(message: QuentliMessage): void {
+    this.logger.log("Handling redirect return:", message.type);
+    this.emitMessage(message, "redirect");
+
+    if (message.status === "CANCELED") {
+      this.cancel("user_canceled");
+    } else {
+      this.handleCompletion(message, "redirect");
+    }
+  }
+
+  /**
+   * Handle READY message from checkout/setup page
+   * Initiates the secure credential transfer via MessageChannel
+   */
+  private handleReady(event: MessageEvent): void {
+    this.logger.log("Handling READY event");
+
+    const targetWindow = this.targetWindow;
+
+    if (!targetWindow) {
+      this.logger.error("No target window available");
+      return;
+    }
+
+    if (!this.authSession) {
+      this.logger.error("No auth session available");
+      return;
+    }
+
+    this.clearHandshakeTimeout();
+    this.negotiate(event.data as QuentliMessage);
+    this.setStatus("ready");
+    this.invoke("onReady", this.callbacks.onReady);
+    this.events.emit("ready", this.eventBase());
+
+    try {
+      // Replace any channel left over from a previous READY (e.g. page reload)
+      this.messageChannel?.port1.close();
+
+      // Create a new MessageChannel for secure communication
+      this.messageChannel = new MessageChannel();
+
+      // Listen for messages on port1
+      this.messageChannel.port1.onmessage = (e: MessageEvent) => {
+        const message = e.data as QuentliMessage;
+        this.logger.log("Received message on MessageChannel:", message.type);
+        this.emitMessage(message, "port");
+
+        if (message.type === "PAYMENT_COMPLETED" && this.sessionType === 'payment') {
+          this.handleCompletion(message, "port");
+        } else if (message.type === "PAYMENT_METHOD_ADDED" && this.sessionType === 'setup') {
+          this.handleCompletion(message, "port");
+        } else if (message.type === "RESIZE") {
+          this.handleResize(message);
+        } else {
+          this.handleLifecycleMessage(message);
+        }
+      };
+
+      // Send credentials and transfer port2 to the payment/setup window
+      targetWindow.postMessage(
+        this.createInitMessage(this.authSession),
+        event.origin,
+        [this.messageChannel.port2] // Transfer port2
+      );
+
+      this.sendPrefill();
+
+      this.setStatus("initialized");
+      this.events.emit("init", this.eventBase());
+      this.logger.log("Sent INIT message with credentials");
+    } catch (error) {
+      this.logger.error("Error handling READY:", error);
+      this.fail(
+        error instanceof Error
+          ? error
+          : new Error("Failed to initialize session")
+      );
+    }
+  }
+
+  /**
+   * Record the protocol version and capabilities the hosted page sent with
+   * READY, warning when it is older or newer than this SDK
+   */
+  private negotiate(message: QuentliMessage): void {
+    const { protocolVersion, version, capabilities } = message;
+
+    if (typeof protocolVersion !== "number") {
+      this.logger.warn(
+        "Hosted page did not report a protocol version, it may predate this SDK"
+      );
+      this.pageCapabilities = null;
+      return;
+    }
+
+    this.logger.log(
+      `Hosted page ${version ?? "(unknown version)"} speaks protocol v${protocolVersion}`
+    );
+
+    if (protocolVersion > PROTOCOL_VERSION) {
+      this.logger.warn(
+        `Hosted page speaks protocol v${protocolVersion}, newer than v${PROTOCOL_VERSION} ` +
+          `of @quentli/js ${SDK_VERSION}; update the SDK to use new features`
+      );
+    } else if (protocolVersion < PROTOCOL_VERSION) {
+      this.logger.warn(
+        `Hosted page speaks protocol v${protocolVersion}, older than v${PROTOCOL_VERSION} ` +
+          `of @quentli/js ${SDK_VERSION}; some features may be unavailable`
+      );
+    }
+
+    this.pageCapabilities = new Set(Array.isArray(capabilities) ? capabilities : []);
+
+    if (this.autoResize && !this.supports("resize")) {
+      this.logger.warn(
+        "autoResize is enabled but the hosted page does not report its height"
+      );
+    }
+
+    if (this.appearance && !this.supports("theme")) {
+      this.logger.warn("appearance is set but the hosted page does not support it");
+    }
+
+    // The locale also travels in the URL, so older pages may still apply it
+    if (this.locale && !this.supports("locale")) {
+      this.logger.warn("Hosted page does not support locale changes");
+    }
+  }
+
+  /**
+   * Whether the hosted page supports a capability. Pages that predate
+   * negotiation are given the benefit of the doubt.
+   */
+  private supports(capability: QuentliCapability): boolean {
+    return this.pageCapabilities?.has(capability) ?? true;
+  }
+
+  /**
+   * Send the customer details over the MessageChannel. They're personal data,
+   * so unlike INIT they're never posted to the window or logged.
+   */
+  private sendPrefill(): void {
+    if (!this.prefill || !this.messageChannel) {
+      return;
+    }
+
+    if (!this.supports("prefill")) {
+      this.logger.warn("prefill is set but the hosted page does not support it");
+      return;
+    }
+
+    this.messageChannel.port1.postMessage({ type: "PREFILL", prefill: this.prefill });
+    this.logger.log("Sent customer prefill");
+  }
+
+  /**
+   * Build the INIT message carrying credentials and this SDK's version
+   */
+  private createInitMessage(session: QuentliAuthSession): QuentliMessage {
+    return {
+      type: "INIT",
+      accessToken: session.accessToken,
+      csrfToken: session.csrfToken,
+      protocolVersion: PROTOCOL_VERSION,
+      sdkVersion: SDK_VERSION,
+      capabilities: [...SDK_CAPABILITIES],
+      appearance: this.supports("theme") ? this.appearance : undefined,
+      locale: this.supports("locale") ? this.locale : undefined,
+    };
+  }
+
+  /**
+   * Handle completion message (PAYMENT_COMPLETED or PAYMENT_METHOD_ADDED)
+   */
+  private handleCompletion(message: QuentliMessage, channel: MessageTransport): void {
+    if (TERMINAL_STATUSES.has(this._status)) {
+      this.logger.log(
+        `Ignoring duplicate ${message.type} via ${channel}, session already ${this._status}`
+      );
+      return;
+    }
+
+    if (this.sessionType === 'payment') {
+      this.logger.log(`Payment completed via ${channel} with status:`, message.status);
+      const status = message.status as PaymentStatus;
+
+      if (status === "COMPLETE") {
+        if (!this.callbacks.onComplete) {
+          this.logger.log("No onComplete callback provided");
+        }
+        this.complete({
+          status,
+          paymentSessionId: message.paymentSessionId as string | undefined,
+          ...message,
+        } as PaymentCompletionData);
+      } else if (status === "CANCELED") {
+        this.cancel("user_canceled");
+      }
+    } else {
+      this.logger.log(`Payment method added via ${channel}:`, message.paymentMethod);
+
+      if (!this.callbacks.onComplete) {
+        this.logger.log("No onPaymentMethodAdded callback provided");
+      }
+
+      this.complete({
+        paymentMethod: message.paymentMethod,
+        ...message,
+      } as PaymentMethodAddedData);
+    }
+  }
+
+  /**
+   * Start watching the session once its popup or iframe has been created
+   */
+  private handleOpened(): void {
+    this.setStatus("loading");
+    this.startHandshakeTimeout();
+    this.scheduleExpiry();
+  }
+
+  /**
+   * Fail the session, or reload its iframe while retries remain, if the
+   * hosted page doesn't post READY in time
+   */
+  private startHandshakeTimeout(): void {
+    this.clearHandshakeTimeout();
+
+    if (this.handshakeTimeoutMs <= 0) {
+      return;
+    }
+
+    this.handshakeTimeout = window.setTimeout(() => {
+      this.handshakeTimeout = null;
+
+      if (this.iframeElement && this.handshakeRetriesLeft > 0) {
+        this.handshakeRetriesLeft--;
+        this.logger.warn(
+          `No READY after ${this.handshakeTimeoutMs}ms, reloading iframe ` +
+            `(${this.handshakeRetriesLeft} retries left)`
+        );
+        this.iframeElement.src = this.iframeElement.src;
+        this.startHandshakeTimeout();
+        return;
+      }
+
+      this.logger.error(`No READY after ${this.handshakeTimeoutMs}ms`);
+      this.fail(new HandshakeTimeoutError(this.handshakeTimeoutMs, this.sessionType));
+    }, this.handshakeTimeoutMs);
+  }
+
+  /**
+   * Stop waiting for READY
+   */
+  private clearHandshakeTimeout(): void {
+    if (this.handshakeTimeout !== null) {
+      clearTimeout(this.handshakeTimeout);
+      this.handshakeTimeout = null;
+    }
+  }
+
+  /**
+   * Start the timer that refreshes or expires the credentials
+   */
+  private scheduleExpiry(): void {
+    if (this.expiryTimeout !== null) {
+      clearTimeout(this.expiryTimeout);
+      this.expiryTimeout = null;
+    }
+
+    const remaining = this.authSession && getTimeUntilExpiry(this.authSession);
+    if (remaining === null) {
+      return;
+    }
+
+    const lead = this.callbacks.refreshSession ? REFRESH_LEAD_MS : 0;
+    const delay = Math.max(0, remaining - lead);
+
+    this.expiryTimeout = window.setTimeout(() => {
+      this.expiryTimeout = null;
+
+      if (delay > MAX_TIMEOUT_MS) {
+        this.scheduleExpiry();
+      } else if (this.callbacks.refreshSession) {
+        void this.refreshCredentials();
+      } else {
+        this.expire();
+      }
+    }, Math.min(delay, MAX_TIMEOUT_MS));
+  }
+
+  /**
+   * Fetch fresh credentials and re-send INIT over the existing MessageChannel.
+   * Expires the session if the refresh fails or the new credentials expire
+   * within REFRESH_LEAD_MS.
+   */
+  private async refreshCredentials(): Promise<void> {
+    this.logger.log("Refreshing session credentials");
+
+    try {
+      const session = await this.callbacks.refreshSession!();
+      validateSession(session, this.sessionType);
+
+      if (this.isClosed) {
+        return;
+      }
+
+      // Credentials that are due for a refresh already would be refreshed again
+      // immediately, in a loop
+      const remaining = getTimeUntilExpiry(session);
+      if (remaining !== null && remaining <= REFRESH_LEAD_MS) {
+        throw new SessionExpiredError(this.sessionType);
+      }
+
+      this.authSession = session;
+
+      // Hosted pages that are not initialized yet get the new tokens on READY
+      this.messageChannel?.port1.postMessage(this.createInitMessage(session));
+
+      this.logger.log("Sent refreshed credentials");
+      this.scheduleExpiry();
+    } catch (error) {
+      this.logger.error("Error refreshing session:", error);
+      this.fail(
+        error instanceof Error ? error : new Error("Failed to refresh session"),
+        { close: false }
+      );
+      this.expire();
+    }
+  }
+
+  /**
+   * Notify that the credentials expired and close the session
+   */
+  private expire(): void {
+    if (this.isClosed) {
+      return;
+    }
+
+    this.logger.log("Session credentials expired");
+    this.invoke("onExpired", this.callbacks.onExpired);
+    this.events.emit("expired", this.eventBase());
+    this.close("expired");
+  }
+
+  /**
+   * Handle progress and failure messages that don't end the session
+   * (PAYMENT_FAILED, PAYMENT_PROCESSING, STEP_CHANGED), and ERROR
+   */
+  private handleLifecycleMessage(message: QuentliMessage): void {
+    const { type: _type, ...data } = message;
+
+    switch (message.type) {
+      case "PAYMENT_FAILED": {
+        this.logger.log("Attempt failed:", message.code);
+        const failure = data as PaymentFailureData;
+        this.invoke("onFailed", this.callbacks.onFailed, failure);
+        this.emitter.emit("failed", failure);
+        this.events.emit("failed", { ...this.eventBase(), data: failure });
+        break;
+      }
+      case "PAYMENT_PROCESSING": {
+        this.logger.log("Processing");
+        const processing = data as PaymentProcessingData;
+        this.invoke("onProcessing", this.callbacks.onProcessing, processing);
+        this.emitter.emit("processing", processing);
+        this.events.emit("processing", { ...this.eventBase(), data: processing });
+        break;
+      }
+      case "STEP_CHANGED": {
+        if (typeof message.step !== 'string') {
+          this.logger.warn("Ignoring STEP_CHANGED message without a step");
+          return;
+        }
+        this.logger.log("Step changed:", message.step);
+        const step = data as StepChangeData;
+        this.invoke("onStepChange", this.callbacks.onStepChange, step);
+        this.emitter.emit("stepChange", step);
+        this.events.emit("stepChange", { ...this.eventBase(), data: step });
+        break;
+      }
+      case "ERROR": {
+        this.logger.error("Hosted page reported an error:", message.code, message.message);
+        const error = new RemoteError(
+          message.message || "The hosted page reported an error",
+          this.sessionType,
+          message.code,
+          message.fatal === true
+        );
+        this.fail(error, { close: error.fatal });
+        break;
+      }
+      default:
+        this.logger.warn("Unknown message type:", message.type);
+    }
+  }
+
+  /**
+   * Handle RESIZE message: set the iframe height to the reported content
+   * height, clamped to the configured bounds
+   */
+  private handleResize(message: QuentliMessage): void {
+    if (!this.autoResize || !this.iframeElement) {
+      return;
+    }
+
+    if (typeof message.height !== 'number' || !Number.isFinite(message.height)) {
+      this.logger.warn("Ignoring RESIZE message without a valid height");
+      return;
+    }
+
+    const { minHeight = 0, maxHeight = Infinity, onResize } = this.autoResize;
+    const height = Math.ceil(Math.min(Math.max(message.height, minHeight), maxHeight));
+
+    this.iframeElement.style.height = `${height}px`;
+    this.logger.log(`Resized iframe to ${height}px`);
+    this.invoke("onResize", onResize, height);
+  }
+
+  /**
+   * Deliver a successful result and clean up all resources
+   */
+  private complete(data: PaymentCompletionData | PaymentMethodAddedData): void {
+    if (!this.settle("completed")) {
+      return;
+    }
+
+    this.setStatus("completed");
+    this.invoke("onComplete", this.callbacks.onComplete, data);
+    this.emitter.emit("complete", data);
+    this.events.emit("complete", { ...this.eventBase(), data });
+    this.release();
+  }
+
+  /**
+   * Deliver a cancellation and clean up all resources
+   */
+  private cancel(reason: CancelReason): void {
+    if (!this.settle("canceled")) {
+      return;
+    }
+
+    this.setStatus("canceled");
+    this.invoke("onCancel", this.callbacks.onCancel, reason);
+    this.emitter.emit("cancel", reason);
+    this.events.emit("cancel", { ...this.eventBase(), reason });
+    this.release();
+  }
+
+  /**
+   * Deliver an error, cleaning up all resources unless the session can recover
+   */
+  private fail(error: Error, { close = true } = {}): void {
+    if (!this.settle("errored")) {
+      return;
+    }
+
+    if (close) {
+      this.setStatus("errored");
+    }
+    this.invoke("onError", this.callbacks.onError, error);
+    this.emitter.emit("error", error);
+    this.events.emit("error", { ...this.eventBase(), error });
+    if (close) {
+      this.release();
+    }
+  }
+
+  /**
+   * Call a merchant callback. Errors it throws are logged so a faulty
+   * callback cannot keep the session from cleaning up.
+   */
+  private invoke<Args extends unknown[]>(
+    name: string,
+    callback: ((...args: Args) => void) | undefined,
+    ...args: Args
+  ): void {
+    try {
+      callback?.(...args);
+    } catch (error) {
+      this.logger.error(`Error in ${name} callback:`, error);
+    }
+  }
+
+  /**
+   * Check that the session hasn't ended yet, so each session delivers exactly
+   * one result even if it is reported more than once
+   */
+  private settle(outcome: SessionStatus): boolean {
+    if (TERMINAL_STATUSES.has(this._status)) {
+      this.logger.warn(`Ignoring ${outcome} result, session already ${this._status}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Forward a received message to instance subscribers
+   */
+  private emitMessage(message: QuentliMessage, channel: MessageTransport): void {
+    this.events.emit("message", {
+      ...this.eventBase(),
+      type: message.type,
+      message,
+      channel,
+    });
+  }
+
+  /**
+   * Fields identifying this session in instance events
+   */
+  private eventBase(): QuentliEventBase {
+    return { sessionId: this.id, sessionType: this.sessionType };
+  }
+
+  /**
+   * Update the lifecycle status and notify subscribers
+   */
+  private setStatus(status: SessionStatus): void {
+    if (this._status === status || TERMINAL_STATUSES.has(this._status)) {
+      return;
+    }
+
+    this._status = status;
+    this.emitter.emit("status", status);
+  }
+
+  /**
+   * Close the popup or iframe and release all resources held by the session.
+   * A session that hasn't ended yet is canceled with the given reason.
+   */
+  close(reason: CancelReason = "destroyed"): void {
+    if (this.isClosed) {
+      return;
+    }
+
+    if (TERMINAL_STATUSES.has(this._status)) {
+      this.release();
+    } else {
+      this.logger.log("Closing session before it ended:", reason);
+      this.cancel(reason);
+    }
+  }
+
+  /**
+   * Release all resources held by the session without notifying callbacks
+   */
+  private release(): void {
+    if (this.isClosed) {
+      return;
+    }
+
+    this.isClosed = true;
+    this.logger.log("Cleaning up resources");
+
+    // A session released before reaching a result counts as canceled
+    this.setStatus("canceled");
+
+    // Close popup window
+    if (this.popupWindow && !this.popupWindow.closed) {
+      this.popupWindow.close();
+    }
+    this.popupWindow = null;
+
+    // Remove iframe
+    if (this.iframeElement) {
+      this.iframeElement.remove();
+      this.iframeElement = null;
+    }
+    this.iframeTarget = null;
+
+    // Remove modal overlay
+    if (this.modal) {
+      this.modal.destroy();
+      this.modal = null;
+    }
+
+    // Clear popup check interval
+    if (this.popupCheckInterval !== null) {
+      clearInterval(this.popupCheckInterval);
+      this.popupCheckInterval = null;
+    }
+
+    // Clear handshake and expiry timers
+    this.clearHandshakeTimeout();
+    if (this.expiryTimeout !== null) {
+      clearTimeout(this.expiryTimeout);
+      this.expiryTimeout = null;
+    }
+
+    // Close MessageChannel
+    if (this.messageChannel) {
+      this.messageChannel.port1.close();
+      this.messageChannel = null;
+    }
+
+    // Clear auth session
+    this.authSession = null;
+
+    this.emitter.clear();
+    this.onClose(this);
+  }
+}
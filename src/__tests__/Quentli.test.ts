@@ -0,0 +1,273 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { InvalidArgumentError } from "../errors";
+import { Quentli } from "../Quentli";
+import { FakeCheckout } from "../testing";
+import type { QuentliMessage } from "../types";
+
+const url = "https://pay.quentli.test/ps_1";
+const session = { accessToken: "access_test", csrfToken: "csrf_test" };
+
+/**
+ * Dispatch a message event on the merchant window from the given source
+ */
+function postFrom(source: unknown, data: QuentliMessage, origin: string): void {
+  const event = new MessageEvent("message", { data, origin });
+  Object.defineProperty(event, "source", { value: source });
+  window.dispatchEvent(event);
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("Quentli", () => {
+  let quentli: Quentli;
+  let fake: FakeCheckout;
+
+  beforeEach(() => {
+    quentli = new Quentli();
+    fake = new FakeCheckout({ behavior: "manual" });
+    fake.install();
+  });
+
+  afterEach(() => {
+    quentli.destroy();
+    fake.uninstall();
+    document.body.innerHTML = "";
+  });
+
+  describe("config", () => {
+    it("rejects allowedOrigins that aren't absolute URLs", () => {
+      expect(() => new Quentli({ allowedOrigins: ["pay.quentli.test"] })).toThrow(
+        InvalidArgumentError
+      );
+      expect(() => new Quentli({ allowedOrigins: ["pay.quentli.test"] })).toThrow(
+        expect.objectContaining({ field: "allowedOrigins" })
+      );
+    });
+
+    it.each([
+      ["handshakeTimeoutMs", { handshakeTimeoutMs: -1 }],
+      ["handshakeTimeoutMs", { handshakeTimeoutMs: Infinity }],
+      ["handshakeTimeoutMs", { handshakeTimeoutMs: "30000" }],
+      ["handshakeRetries", { handshakeRetries: -1 }],
+      ["handshakeRetries", { handshakeRetries: 1.5 }],
+      ["handshakeRetries", { handshakeRetries: NaN }],
+    ])("rejects an invalid %s", (field, config) => {
+      expect(() => new Quentli(config as any)).toThrow(InvalidArgumentError);
+      expect(() => new Quentli(config as any)).toThrow(expect.objectContaining({ field }));
+    });
+
+    it("accepts a zero handshake timeout and retry count", () => {
+      expect(() => new Quentli({ handshakeTimeoutMs: 0, handshakeRetries: 0 })).not.toThrow();
+    });
+
+    it("normalizes allowedOrigins to origins", async () => {
+      quentli.destroy();
+      quentli = new Quentli({ allowedOrigins: ["https://pay.quentli.test/checkout/"] });
+
+      const handle = await quentli.paymentSessions.displayPopup({ url, session });
+      await fake.run(handle);
+
+      expect(fake.initMessage).not.toBeNull();
+    });
+  });
+
+  describe("handshake", () => {
+    it("sends the credentials in INIT once the popup is ready", async () => {
+      const handle = await quentli.paymentSessions.displayPopup({ url, session });
+      await fake.run(handle);
+
+      expect(fake.initMessage).toMatchObject({ type: "INIT", ...session });
+      expect(handle.status).toBe("initialized");
+    });
+
+    it("delivers results sent over the MessageChannel to an embedded session", async () => {
+      const onComplete = vi.fn();
+      const target = document.createElement("div");
+      document.body.append(target);
+
+      const handle = await quentli.paymentSessions.displayEmbedded({
+        url,
+        session,
+        target,
+        onComplete,
+      });
+      await fake.run(handle);
+      fake.complete({ paymentSessionId: "ps_1" });
+
+      await vi.waitFor(() => expect(onComplete).toHaveBeenCalledTimes(1));
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "COMPLETE", paymentSessionId: "ps_1" })
+      );
+      expect(handle.status).toBe("completed");
+    });
+
+    it("closes the session when sending INIT fails", async () => {
+      const onError = vi.fn();
+      const handle = await quentli.paymentSessions.displayPopup({ url, session, onError });
+      const popup = fake.popups[0];
+      popup.postMessage = () => {
+        throw new Error("Window is gone");
+      };
+
+      postFrom(popup, { type: "READY" }, "https://pay.quentli.test");
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: "Window is gone" }));
+      expect(handle.status).toBe("errored");
+      expect(popup.closed).toBe(true);
+    });
+
+    it("rejects messages from origins that aren't allowed", async () => {
+      const onSecurityViolation = vi.fn();
+      quentli.destroy();
+      quentli = new Quentli({ onSecurityViolation });
+      fake.uninstall();
+      fake = new FakeCheckout({ behavior: "manual", origin: "https://evil.test" });
+      fake.install();
+
+      const handle = await quentli.paymentSessions.displayPopup({ url, session });
+      await fake.run(handle);
+
+      expect(fake.initMessage).toBeNull();
+      expect(handle.status).not.toBe("initialized");
+      expect(onSecurityViolation).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: "ORIGIN_NOT_ALLOWED", origin: "https://evil.test" })
+      );
+    });
+
+    it("rejects messages from windows it didn't open", async () => {
+      const onSecurityViolation = vi.fn();
+      quentli.destroy();
+      quentli = new Quentli({ onSecurityViolation });
+
+      const handle = await quentli.paymentSessions.displayPopup({ url, session });
+      postFrom(window, { type: "READY" }, "https://pay.quentli.test");
+
+      expect(handle.status).not.toBe("initialized");
+      expect(onSecurityViolation).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: "UNEXPECTED_SOURCE" })
+      );
+    });
+  });
+
+  describe("result delivery", () => {
+    it("delivers a result reported twice only once", async () => {
+      const onComplete = vi.fn();
+      const handle = await quentli.paymentSessions.displayPopup({ url, session, onComplete });
+      await fake.run(handle);
+
+      fake.complete();
+      fake.complete();
+
+      await vi.waitFor(() => expect(onComplete).toHaveBeenCalled());
+      await wait(20);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignores results posted to the window after the handshake", async () => {
+      const onComplete = vi.fn();
+      const handle = await quentli.paymentSessions.displayPopup({ url, session, onComplete });
+      await fake.run(handle);
+
+      postFrom(
+        fake.popups[0],
+        { type: "PAYMENT_COMPLETED", status: "COMPLETE" },
+        "https://pay.quentli.test"
+      );
+      await wait(20);
+
+      expect(onComplete).not.toHaveBeenCalled();
+      expect(handle.status).toBe("initialized");
+    });
+
+    it("cleans up even if the result callback throws", async () => {
+      const onComplete = vi.fn(() => {
+        throw new Error("Merchant bug");
+      });
+      const handle = await quentli.paymentSessions.displayPopup({ url, session, onComplete });
+      await fake.run(handle);
+
+      fake.complete();
+
+      await vi.waitFor(() => expect(onComplete).toHaveBeenCalledTimes(1));
+      expect(handle.status).toBe("completed");
+      expect(fake.popups[0].closed).toBe(true);
+    });
+  });
+
+  describe("cleanup", () => {
+    it("closes every open session and cancels it with 'destroyed'", async () => {
+      const onPopupCancel = vi.fn();
+      const onEmbeddedCancel = vi.fn();
+      const target = document.createElement("div");
+      document.body.append(target);
+
+      const popup = await quentli.paymentSessions.displayPopup({
+        url,
+        session,
+        onCancel: onPopupCancel,
+      });
+      const embedded = await quentli.setupSessions.displayEmbedded({
+        url: "https://pay.quentli.test/ss_1",
+        session,
+        target,
+        onCancel: onEmbeddedCancel,
+      });
+
+      quentli.cleanup();
+
+      expect(onPopupCancel).toHaveBeenCalledWith("destroyed");
+      expect(onEmbeddedCancel).toHaveBeenCalledWith("destroyed");
+      expect(popup.status).toBe("canceled");
+      expect(embedded.status).toBe("canceled");
+      expect(fake.popups[0].closed).toBe(true);
+      expect(target.querySelector("iframe")).toBeNull();
+    });
+
+    it("keeps the instance usable", async () => {
+      quentli.cleanup();
+
+      const handle = await quentli.paymentSessions.displayPopup({ url, session });
+      await fake.run(handle);
+
+      expect(handle.status).toBe("initialized");
+    });
+  });
+
+  describe("handleRedirectReturn", () => {
+    it("reports a completed payment from the return URL", () => {
+      const onComplete = vi.fn();
+      const returned = quentli.handleRedirectReturn({
+        url:
+          "https://merchant.test/return?quentli_session_type=payment" +
+          "&quentli_result=complete&quentli_payment_session_id=ps_1",
+        onComplete,
+      });
+
+      expect(returned).toMatchObject({
+        sessionType: "payment",
+        result: { status: "complete", data: { paymentSessionId: "ps_1" } },
+      });
+      expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignores a completed setup without a payment method", () => {
+      const onPaymentMethodAdded = vi.fn();
+      const returned = quentli.handleRedirectReturn({
+        url: "https://merchant.test/return?quentli_session_type=setup&quentli_result=complete",
+        onPaymentMethodAdded,
+      });
+
+      expect(returned).toBeNull();
+      expect(onPaymentMethodAdded).not.toHaveBeenCalled();
+    });
+
+    it.each(["", "not a url", 42])("rejects the url %j", (url) => {
+      expect(() => quentli.handleRedirectReturn({ url: url as any })).toThrow(
+        InvalidArgumentError
+      );
+      expect(() => quentli.handleRedirectReturn({ url: url as any })).toThrow(
+        expect.objectContaining({ field: "url" })
+      );
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { MockInstance } from "vitest";
+import { act, createElement, StrictMode } from "react";
+import type { ReactElement } from "react";
+import { createRoot } from "react-dom/client";
+import type { Root } from "react-dom/client";
+import { InvalidStateError } from "../errors";
+import { PaymentSessions } from "../Quentli";
+import {
+  EmbeddedCheckout,
+  QuentliProvider,
+  usePaymentSession,
+  useQuentli,
+} from "../react";
+import type { PaymentSessionOpenOptions, SessionHookResult } from "../react";
+import { FakeCheckout } from "../testing";
+import type { PaymentSessionResult, QuentliSessionHandle } from "../types";
+
+// Let act() flush effects and state updates like a test renderer would
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const url = "https://pay.quentli.test/ps_1";
+const session = { accessToken: "access_test", csrfToken: "csrf_test" };
+
+type PaymentHook = SessionHookResult<PaymentSessionOpenOptions, PaymentSessionResult>;
+type DisplaySpy = MockInstance<(...args: any[]) => Promise<QuentliSessionHandle>>;
+
+describe("React bindings", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+  let fake: FakeCheckout;
+  let displayEmbedded: DisplaySpy;
+
+  /**
+   * Render an element and flush its effects
+   */
+  async function render(element: ReactElement): Promise<void> {
+    await act(async () => {
+      root.render(element);
+    });
+  }
+
+  /**
+   * Handles of every embedded session opened so far, oldest first
+   */
+  function embeddedHandles(): Promise<QuentliSessionHandle[]> {
+    return Promise.all(displayEmbedded.mock.results.map((result) => result.value));
+  }
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.append(container);
+    root = createRoot(container);
+    fake = new FakeCheckout({ behavior: "manual" });
+    fake.install();
+    displayEmbedded = vi.spyOn(PaymentSessions.prototype, "displayEmbedded");
+  });
+
+  afterEach(async () => {
+    await act(async () => root.unmount());
+    fake.uninstall();
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  it("keeps a single embedded session through StrictMode's double mount", async () => {
+    const onCancel = vi.fn();
+
+    await render(
+      createElement(
+        StrictMode,
+        null,
+        createElement(
+          QuentliProvider,
+          null,
+          createElement(EmbeddedCheckout, { url, session, onCancel })
+        )
+      )
+    );
+
+    const handles = await embeddedHandles();
+    const live = handles[handles.length - 1];
+    expect(container.querySelectorAll("iframe")).toHaveLength(1);
+    expect(handles.filter((handle) => handle.status !== "canceled")).toEqual([live]);
+    expect(onCancel).not.toHaveBeenCalled();
+
+    await fake.run(live);
+    expect(live.status).toBe("initialized");
+  });
+
+  it("closes the embedded session on unmount", async () => {
+    const onCancel = vi.fn();
+
+    await render(
+      createElement(
+        QuentliProvider,
+        null,
+        createElement(EmbeddedCheckout, { url, session, onCancel })
+      )
+    );
+    const [handle] = await embeddedHandles();
+    expect(container.querySelector("iframe")).not.toBeNull();
+
+    await render(createElement(QuentliProvider, null));
+
+    expect(handle.status).toBe("canceled");
+    expect(container.querySelector("iframe")).toBeNull();
+    expect(onCancel).not.toHaveBeenCalled();
+  });
+
+  it("reports the status and result of sessions opened by usePaymentSession", async () => {
+    const displayPopup: DisplaySpy = vi.spyOn(PaymentSessions.prototype, "displayPopup");
+    let hook!: PaymentHook;
+    function Checkout() {
+      hook = usePaymentSession();
+      return null;
+    }
+
+    await render(createElement(QuentliProvider, null, createElement(Checkout)));
+    expect(hook.status).toBe("idle");
+
+    const onComplete = vi.fn();
+    await act(async () => {
+      await hook.open({ url, session, onComplete });
+    });
+    expect(hook.status).toBe("loading");
+
+    await act(async () => {
+      await fake.run(await displayPopup.mock.results[0].value);
+    });
+    expect(hook.status).toBe("initialized");
+
+    await act(async () => {
+      fake.complete({ paymentSessionId: "ps_1" });
+      await vi.waitFor(() => expect(onComplete).toHaveBeenCalled());
+    });
+    expect(hook.status).toBe("completed");
+    expect(hook.result).toMatchObject({
+      status: "complete",
+      data: { paymentSessionId: "ps_1" },
+    });
+  });
+
+  it("closes the popup opened by usePaymentSession on unmount", async () => {
+    let hook!: PaymentHook;
+    function Checkout() {
+      hook = usePaymentSession();
+      return null;
+    }
+
+    await render(createElement(QuentliProvider, null, createElement(Checkout)));
+    await act(async () => {
+      await hook.open({ url, session });
+    });
+
+    await render(createElement(QuentliProvider, null));
+
+    expect(fake.popups[0].closed).toBe(true);
+  });
+
+  it("throws when useQuentli is used outside a QuentliProvider", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    function Orphan() {
+      useQuentli();
+      return null;
+    }
+
+    await expect(render(createElement(Orphan))).rejects.toBeInstanceOf(InvalidStateError);
+  });
+});
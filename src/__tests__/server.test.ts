@@ -0,0 +1,115 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from "vitest";
+import { ApiError, InvalidArgumentError } from "../errors";
+import { QuentliServer } from "../server";
+
+const sessionResponse = {
+  id: "ps_1",
+  url: "https://pay.quentli.test/ps_1",
+  session: {
+    accessToken: "access_test",
+    csrfToken: "csrf_test",
+    expiresAt: "2030-01-01T00:00:00.000Z",
+  },
+};
+
+/**
+ * Fetch stub answering every request with the given status and body
+ */
+function respondWith(status: number, body: string) {
+  return vi.fn<typeof fetch>(async () => new Response(body, { status }));
+}
+
+describe("QuentliServer", () => {
+  it("creates a payment session", async () => {
+    const fetch = respondWith(200, JSON.stringify(sessionResponse));
+    const quentli = new QuentliServer({
+      apiKey: "sk_test",
+      baseUrl: "https://api.quentli.test/",
+      fetch,
+    });
+
+    const created = await quentli.createPaymentSession({ amount: 1000 });
+
+    expect(created).toEqual({
+      id: "ps_1",
+      sessionType: "payment",
+      url: sessionResponse.url,
+      session: sessionResponse.session,
+      raw: sessionResponse,
+    });
+    expect(fetch).toHaveBeenCalledWith(
+      "https://api.quentli.test/v1/payment-sessions",
+      expect.objectContaining({
+        method: "POST",
+        headers: expect.objectContaining({ Authorization: "Bearer sk_test" }),
+        body: JSON.stringify({ amount: 1000 }),
+      })
+    );
+  });
+
+  it("retrieves a setup session", async () => {
+    const fetch = respondWith(200, JSON.stringify(sessionResponse));
+    const quentli = new QuentliServer({ apiKey: "sk_test", fetch });
+
+    const retrieved = await quentli.retrieveSession("setup", "ss 1");
+
+    expect(retrieved.sessionType).toBe("setup");
+    expect(fetch).toHaveBeenCalledWith(
+      "https://api.quentli.com/v1/setup-sessions/ss%201",
+      expect.objectContaining({ method: "GET", body: undefined })
+    );
+  });
+
+  it("throws ApiError with the status and body of non-2xx responses", async () => {
+    const quentli = new QuentliServer({
+      apiKey: "sk_test",
+      fetch: respondWith(422, JSON.stringify({ message: "amount is required" })),
+    });
+
+    const error = await quentli.createPaymentSession().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      code: "API_ERROR",
+      message: "amount is required",
+      status: 422,
+      body: { message: "amount is required" },
+    });
+  });
+
+  it("throws ApiError for responses that aren't JSON", async () => {
+    const quentli = new QuentliServer({
+      apiKey: "sk_test",
+      fetch: respondWith(200, "<html>Bad gateway</html>"),
+    });
+
+    await expect(quentli.createSetupSession()).rejects.toMatchObject({
+      code: "API_ERROR",
+      status: 200,
+    });
+  });
+
+  it.each([
+    ["url", { session: sessionResponse.session }],
+    ["session", { url: sessionResponse.url }],
+    ["session credentials", { url: sessionResponse.url, session: { accessToken: "a" } }],
+  ])("throws ApiError for responses missing %s", async (_missing, body) => {
+    const quentli = new QuentliServer({
+      apiKey: "sk_test",
+      fetch: respondWith(200, JSON.stringify(body)),
+    });
+
+    await expect(quentli.createPaymentSession()).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it("rejects unknown session types without sending a request", async () => {
+    const fetch = respondWith(200, JSON.stringify(sessionResponse));
+    const quentli = new QuentliServer({ apiKey: "sk_test", fetch });
+
+    await expect(
+      quentli.retrieveSession("toString" as "payment", "ps_1")
+    ).rejects.toBeInstanceOf(InvalidArgumentError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
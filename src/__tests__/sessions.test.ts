@@ -0,0 +1,558 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { MockInstance } from "vitest";
+import { InvalidArgumentError, RemoteError, SessionExpiredError } from "../errors";
+import { Quentli } from "../Quentli";
+import { FakeCheckout } from "../testing";
+import { PROTOCOL_VERSION, SDK_CAPABILITIES, SDK_VERSION } from "../version";
+import type { QuentliSessionHandle } from "../types";
+
+const session = { accessToken: "access_test", csrfToken: "csrf_test" };
+
+type DisplaySpy = MockInstance<(...args: any[]) => Promise<QuentliSessionHandle>>;
+
+/**
+ * Handle of the session opened through a spied display method, e.g. by checkout()
+ */
+function displayed(display: DisplaySpy): Promise<QuentliSessionHandle> {
+  return display.mock.results[0].value;
+}
+
+describe("PaymentSessions", () => {
+  const url = "https://pay.quentli.test/ps_1";
+  let quentli: Quentli;
+  let fake: FakeCheckout;
+  let displayPopup: DisplaySpy;
+
+  beforeEach(() => {
+    quentli = new Quentli();
+    displayPopup = vi.spyOn(quentli.paymentSessions, "displayPopup");
+  });
+
+  afterEach(() => {
+    quentli.destroy();
+    fake?.uninstall();
+  });
+
+  it("resolves checkout() with the completed payment", async () => {
+    fake = new FakeCheckout({ behavior: "complete", data: { paymentSessionId: "ps_1" } });
+    fake.install();
+
+    const result = quentli.paymentSessions.checkout({ url, session });
+    await fake.run(await displayed(displayPopup));
+
+    await expect(result).resolves.toMatchObject({
+      status: "complete",
+      data: { status: "COMPLETE", paymentSessionId: "ps_1" },
+    });
+  });
+
+  it("resolves checkout() as canceled when the user cancels", async () => {
+    fake = new FakeCheckout({ behavior: "cancel" });
+    fake.install();
+
+    const result = quentli.paymentSessions.checkout({ url, session });
+    await fake.run(await displayed(displayPopup));
+
+    await expect(result).resolves.toEqual({ status: "canceled", reason: "user_canceled" });
+  });
+
+  it("keeps checkout() pending after a non-fatal error", async () => {
+    fake = new FakeCheckout({ behavior: "manual" });
+    fake.install();
+    const onError = vi.fn();
+
+    const result = quentli.paymentSessions.checkout({ url, session, onError });
+    await fake.run(await displayed(displayPopup));
+
+    fake.fail("Invalid card number", { fatal: false });
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+    fake.fail("Payment failed");
+
+    await expect(result).rejects.toBeInstanceOf(RemoteError);
+    await expect(result).rejects.toMatchObject({ fatal: true });
+  });
+
+  it("rejects checkout() without options", async () => {
+    await expect(quentli.paymentSessions.checkout(undefined as any)).rejects.toMatchObject({
+      field: "options",
+      sessionType: "payment",
+    });
+    await expect(quentli.paymentSessions.checkout(undefined as any)).rejects.toBeInstanceOf(
+      InvalidArgumentError
+    );
+  });
+
+  it("cancels with 'popup_closed' when the user closes the popup", async () => {
+    fake = new FakeCheckout({ behavior: "manual" });
+    fake.install();
+    const onCancel = vi.fn();
+
+    const handle = await quentli.paymentSessions.displayPopup({ url, session, onCancel });
+    await fake.run(handle);
+    fake.closeWindow();
+
+    await vi.waitFor(() => expect(onCancel).toHaveBeenCalledWith("popup_closed"), {
+      timeout: 1500,
+    });
+    expect(handle.status).toBe("canceled");
+  });
+});
+
+describe("SetupSessions", () => {
+  const url = "https://pay.quentli.test/ss_1";
+  let quentli: Quentli;
+  let fake: FakeCheckout;
+  let displayPopup: DisplaySpy;
+  let displayEmbedded: DisplaySpy;
+
+  beforeEach(() => {
+    quentli = new Quentli();
+    displayPopup = vi.spyOn(quentli.setupSessions, "displayPopup");
+    displayEmbedded = vi.spyOn(quentli.setupSessions, "displayEmbedded");
+  });
+
+  afterEach(() => {
+    quentli.destroy();
+    fake?.uninstall();
+    document.body.innerHTML = "";
+  });
+
+  it("resolves collect() with the added payment method", async () => {
+    fake = new FakeCheckout({ behavior: "complete" });
+    const target = document.createElement("div");
+    document.body.append(target);
+
+    const result = quentli.setupSessions.collect({ url, session, target });
+    await fake.run(await displayed(displayEmbedded));
+
+    await expect(result).resolves.toMatchObject({
+      status: "complete",
+      data: { paymentMethod: { id: "pm_test" } },
+    });
+  });
+
+  it("rejects collect() without options", async () => {
+    await expect(quentli.setupSessions.collect(null as any)).rejects.toMatchObject({
+      field: "options",
+      sessionType: "setup",
+    });
+  });
+
+  it("resolves collect() as canceled when the user closes the popup", async () => {
+    fake = new FakeCheckout({ behavior: "cancel" });
+    fake.install();
+
+    const result = quentli.setupSessions.collect({ url, session });
+    await fake.run(await displayed(displayPopup));
+
+    await expect(result).resolves.toEqual({ status: "canceled", reason: "popup_closed" });
+  });
+});
+
+describe("credential refresh", () => {
+  const url = "https://pay.quentli.test/ps_1";
+  let quentli: Quentli;
+  let fake: FakeCheckout;
+
+  /**
+   * Credentials expiring in the given number of milliseconds
+   */
+  const expiringIn = (ms: number) => ({
+    ...session,
+    expiresAt: new Date(Date.now() + ms).toISOString(),
+  });
+
+  beforeEach(() => {
+    quentli = new Quentli();
+    fake = new FakeCheckout({ behavior: "manual" });
+    fake.install();
+  });
+
+  afterEach(() => {
+    quentli.destroy();
+    fake.uninstall();
+  });
+
+  // Refreshes are scheduled 30s before expiry
+  const refreshSoon = 30_050;
+
+  it("sends refreshed credentials over the MessageChannel", async () => {
+    const refreshSession = vi.fn(async () => ({
+      ...expiringIn(3_600_000),
+      accessToken: "access_refreshed",
+    }));
+
+    const handle = await quentli.paymentSessions.displayPopup({
+      url,
+      session: expiringIn(refreshSoon),
+      refreshSession,
+    });
+    await fake.run(handle);
+
+    await vi.waitFor(() =>
+      expect(fake.received).toContainEqual(
+        expect.objectContaining({ type: "INIT", accessToken: "access_refreshed" })
+      )
+    );
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+    expect(handle.status).toBe("initialized");
+  });
+
+  it("expires the session when the refresh fails", async () => {
+    const refreshError = new Error("Network error");
+    const onError = vi.fn();
+    const onExpired = vi.fn();
+    const onCancel = vi.fn();
+
+    const handle = await quentli.paymentSessions.displayPopup({
+      url,
+      session: expiringIn(refreshSoon),
+      refreshSession: async () => {
+        throw refreshError;
+      },
+      onError,
+      onExpired,
+      onCancel,
+    });
+    await fake.run(handle);
+
+    await vi.waitFor(() => expect(onExpired).toHaveBeenCalledTimes(1));
+    expect(onError).toHaveBeenCalledWith(refreshError);
+    expect(onCancel).toHaveBeenCalledWith("expired");
+    expect(handle.status).toBe("canceled");
+  });
+
+  it("expires the session instead of refreshing again when new credentials expire too soon", async () => {
+    const refreshSession = vi.fn(async () => expiringIn(10_000));
+    const onError = vi.fn();
+    const onExpired = vi.fn();
+
+    const handle = await quentli.paymentSessions.displayPopup({
+      url,
+      session: expiringIn(refreshSoon),
+      refreshSession,
+      onError,
+      onExpired,
+    });
+    await fake.run(handle);
+
+    await vi.waitFor(() => expect(onExpired).toHaveBeenCalledTimes(1));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(expect.any(SessionExpiredError));
+    expect(fake.received.filter((message) => message.type === "INIT")).toHaveLength(1);
+    expect(handle.status).toBe("canceled");
+  });
+});
+
+describe("version negotiation", () => {
+  const url = "https://pay.quentli.test/ps_1";
+  let quentli: Quentli;
+  let fake: FakeCheckout;
+  let warn: MockInstance<typeof console.warn>;
+
+  beforeEach(() => {
+    quentli = new Quentli({ debug: true });
+    warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    quentli.destroy();
+    fake.uninstall();
+    vi.restoreAllMocks();
+  });
+
+  it("sends the SDK's protocol version, version and capabilities in INIT", async () => {
+    fake = new FakeCheckout({ behavior: "manual" });
+    fake.install();
+
+    const handle = await quentli.paymentSessions.displayPopup({ url, session });
+    await fake.run(handle);
+
+    expect(fake.initMessage).toMatchObject({
+      protocolVersion: PROTOCOL_VERSION,
+      sdkVersion: SDK_VERSION,
+      capabilities: [...SDK_CAPABILITIES],
+    });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("warns when the hosted page speaks another protocol version", async () => {
+    fake = new FakeCheckout({ behavior: "manual", protocolVersion: PROTOCOL_VERSION + 1 });
+    fake.install();
+
+    const handle = await quentli.paymentSessions.displayPopup({ url, session });
+    await fake.run(handle);
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.stringContaining(`newer than v${PROTOCOL_VERSION}`)
+    );
+    expect(handle.status).toBe("initialized");
+  });
+
+  it("skips features the hosted page doesn't support", async () => {
+    fake = new FakeCheckout({ behavior: "manual", capabilities: [] });
+    fake.install();
+
+    const handle = await quentli.paymentSessions.displayPopup({
+      url,
+      session,
+      appearance: { mode: "dark" },
+      prefill: { email: "ana@example.com" },
+    });
+    await fake.run(handle);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(fake.initMessage?.appearance).toBeUndefined();
+    expect(fake.received.map((message) => message.type)).toEqual(["INIT"]);
+    expect(warn).toHaveBeenCalledWith(
+      expect.any(String),
+      "appearance is set but the hosted page does not support it"
+    );
+    expect(warn).toHaveBeenCalledWith(
+      expect.any(String),
+      "prefill is set but the hosted page does not support it"
+    );
+  });
+});
+
+describe("appearance", () => {
+  const url = "https://pay.quentli.test/ps_1";
+  const appearance = { mode: "dark" as const, colors: { primary: "#5b21b6" } };
+  let quentli: Quentli;
+  let fake: FakeCheckout;
+
+  beforeEach(() => {
+    quentli = new Quentli();
+  });
+
+  afterEach(() => {
+    quentli.destroy();
+    fake.uninstall();
+    vi.restoreAllMocks();
+  });
+
+  it("sends the appearance in INIT", async () => {
+    fake = new FakeCheckout({ behavior: "manual" });
+    fake.install();
+
+    const handle = await quentli.paymentSessions.displayPopup({ url, session, appearance });
+    await fake.run(handle);
+
+    expect(fake.initMessage).toMatchObject({ appearance });
+  });
+
+  it("sends appearance updates over the MessageChannel", async () => {
+    fake = new FakeCheckout({ behavior: "manual" });
+    fake.install();
+
+    const handle = await quentli.paymentSessions.displayPopup({ url, session });
+    await fake.run(handle);
+    const postToWindow = vi.spyOn(fake.popups[0], "postMessage");
+
+    handle.updateAppearance({ mode: "light" });
+
+    await vi.waitFor(() =>
+      expect(fake.received).toContainEqual({
+        type: "SET_APPEARANCE",
+        appearance: { mode: "light" },
+      })
+    );
+    expect(postToWindow).not.toHaveBeenCalled();
+  });
+
+  it("warns instead of sending updates the hosted page doesn't support", async () => {
+    quentli.destroy();
+    quentli = new Quentli({ debug: true });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    fake = new FakeCheckout({ behavior: "manual", capabilities: ["resize"] });
+    fake.install();
+
+    const handle = await quentli.paymentSessions.displayPopup({ url, session });
+    await fake.run(handle);
+
+    handle.updateAppearance({ mode: "light" });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(fake.received.map((message) => message.type)).toEqual(["INIT"]);
+    expect(warn).toHaveBeenCalledWith(
+      expect.any(String),
+      "Hosted page does not support appearance updates"
+    );
+  });
+
+  it("rejects an invalid appearance", async () => {
+    fake = new FakeCheckout({ behavior: "manual" });
+    fake.install();
+
+    await expect(
+      quentli.paymentSessions.displayPopup({
+        url,
+        session,
+        appearance: { mode: "sepia" } as any,
+      })
+    ).rejects.toMatchObject({ field: "appearance.mode" });
+
+    const handle = await quentli.paymentSessions.displayPopup({ url, session });
+    expect(() => handle.updateAppearance({ colors: "purple" } as any)).toThrow(
+      InvalidArgumentError
+    );
+    expect(() => handle.updateAppearance(undefined as any)).toThrow(
+      expect.objectContaining({ field: "appearance" })
+    );
+  });
+});
+
+describe("locale", () => {
+  const url = "https://pay.quentli.test/ps_1";
+  let quentli: Quentli;
+  let fake: FakeCheckout;
+
+  /**
+   * Locale passed in the URL the popup was opened with
+   */
+  const urlLocale = () => new URL(fake.popups[0].url).searchParams.get("locale");
+
+  beforeEach(() => {
+    fake = new FakeCheckout({ behavior: "manual" });
+    fake.install();
+  });
+
+  afterEach(() => {
+    quentli.destroy();
+    fake.uninstall();
+    vi.restoreAllMocks();
+  });
+
+  it("resolves 'auto' to the browser's language", async () => {
+    vi.spyOn(navigator, "language", "get").mockReturnValue("es-mx");
+    quentli = new Quentli({ locale: "auto" });
+
+    const handle = await quentli.paymentSessions.displayPopup({ url, session });
+    await fake.run(handle);
+
+    expect(urlLocale()).toBe("es-MX");
+    expect(fake.initMessage).toMatchObject({ locale: "es-MX" });
+  });
+
+  it("prefers the locale of the display call over the instance's", async () => {
+    quentli = new Quentli({ locale: "en-US" });
+
+    const handle = await quentli.paymentSessions.displayPopup({ url, session, locale: "es-MX" });
+    await fake.run(handle);
+
+    expect(urlLocale()).toBe("es-MX");
+    expect(fake.initMessage).toMatchObject({ locale: "es-MX" });
+  });
+
+  it("sends locale changes over the MessageChannel", async () => {
+    quentli = new Quentli({ locale: "en-US" });
+
+    const handle = await quentli.paymentSessions.displayPopup({ url, session });
+    await fake.run(handle);
+    const postToWindow = vi.spyOn(fake.popups[0], "postMessage");
+
+    handle.setLocale("es-MX");
+
+    await vi.waitFor(() =>
+      expect(fake.received).toContainEqual({ type: "SET_LOCALE", locale: "es-MX" })
+    );
+    expect(postToWindow).not.toHaveBeenCalled();
+  });
+
+  it("rejects an invalid locale", async () => {
+    expect(() => new Quentli({ locale: "not a locale" })).toThrow(
+      expect.objectContaining({ field: "locale" })
+    );
+
+    quentli = new Quentli();
+    await expect(
+      quentli.paymentSessions.displayPopup({ url, session, locale: 42 as any })
+    ).rejects.toBeInstanceOf(InvalidArgumentError);
+
+    const handle = await quentli.paymentSessions.displayPopup({ url, session });
+    expect(() => handle.setLocale("")).toThrow(InvalidArgumentError);
+  });
+});
+
+describe("prefill", () => {
+  const url = "https://pay.quentli.test/ps_1";
+  const prefill = {
+    name: "Ana López",
+    email: "ana@example.com",
+    billingAddress: { city: "Monterrey", country: "MX" },
+  };
+  let quentli: Quentli;
+  let fake: FakeCheckout;
+
+  beforeEach(() => {
+    quentli = new Quentli();
+  });
+
+  afterEach(() => {
+    quentli.destroy();
+    fake.uninstall();
+  });
+
+  it("keeps the customer details out of the URL", async () => {
+    fake = new FakeCheckout({ behavior: "manual" });
+    fake.install();
+
+    await quentli.paymentSessions.displayPopup({ url, session, prefill });
+
+    const opened = decodeURIComponent(fake.popups[0].url);
+    expect(opened).not.toContain("ana@example.com");
+    expect(opened).not.toContain("Monterrey");
+    expect(opened).not.toContain("prefill");
+  });
+
+  it("sends the customer details over the MessageChannel after the handshake", async () => {
+    fake = new FakeCheckout({ behavior: "manual" });
+    fake.install();
+
+    const handle = await quentli.paymentSessions.displayPopup({ url, session, prefill });
+    expect(fake.received).toEqual([]);
+    await fake.run(handle);
+
+    // Only INIT is posted to the window; PREFILL arrives later on the port
+    expect(fake.received.map((message) => message.type)).toEqual(["INIT"]);
+    expect(fake.initMessage).not.toHaveProperty("prefill");
+    await vi.waitFor(() => expect(fake.received).toContainEqual({ type: "PREFILL", prefill }));
+  });
+
+  it("doesn't send the customer details to pages that don't support them", async () => {
+    fake = new FakeCheckout({ behavior: "manual", capabilities: ["resize", "theme", "locale"] });
+    fake.install();
+
+    const handle = await quentli.paymentSessions.displayPopup({ url, session, prefill });
+    await fake.run(handle);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(fake.received.map((message) => message.type)).toEqual(["INIT"]);
+  });
+
+  it("rejects invalid customer details", async () => {
+    fake = new FakeCheckout({ behavior: "manual" });
+    fake.install();
+
+    await expect(
+      quentli.paymentSessions.displayPopup({
+        url,
+        session,
+        prefill: { email: "ana@" },
+      })
+    ).rejects.toMatchObject({ field: "prefill.email" });
+    await expect(
+      quentli.paymentSessions.displayPopup({
+        url,
+        session,
+        prefill: { billingAddress: { street: "Av. Constitución 100" } as any },
+      })
+    ).rejects.toMatchObject({ field: "prefill.billingAddress.street" });
+    expect(fake.popups).toHaveLength(0);
+  });
+});
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { MockInstance } from "vitest";
+import { createApp, defineComponent, effectScope, h, nextTick } from "vue";
+import type { App } from "vue";
+import { InstanceDestroyedError, InvalidStateError, RemoteError } from "../errors";
+import { PaymentSessions, Quentli } from "../Quentli";
+import { FakeCheckout } from "../testing";
+import type { QuentliSessionHandle } from "../types";
+import { QuentliEmbeddedCheckout, useQuentli } from "../vue";
+
+const url = "https://pay.quentli.test/ps_1";
+const session = { accessToken: "access_test", csrfToken: "csrf_test" };
+
+type DisplaySpy = MockInstance<(...args: any[]) => Promise<QuentliSessionHandle>>;
+
+describe("Vue bindings", () => {
+  let container: HTMLDivElement;
+  let app: App | null;
+  let fake: FakeCheckout;
+  let displayEmbedded: DisplaySpy;
+
+  /**
+   * Mount a component into the container
+   */
+  function mount(render: () => ReturnType<typeof h>): void {
+    app = createApp(defineComponent({ setup: () => render }));
+    app.mount(container);
+  }
+
+  /**
+   * Handle of the first embedded session opened
+   */
+  function embedded(): Promise<QuentliSessionHandle> {
+    return displayEmbedded.mock.results[0].value;
+  }
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.append(container);
+    app = null;
+    fake = new FakeCheckout({ behavior: "manual" });
+    displayEmbedded = vi.spyOn(PaymentSessions.prototype, "displayEmbedded");
+  });
+
+  afterEach(() => {
+    app?.unmount();
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  describe("QuentliEmbeddedCheckout", () => {
+    it("displays the session on mount and emits its events", async () => {
+      const onReady = vi.fn();
+      const onComplete = vi.fn();
+      mount(() => h(QuentliEmbeddedCheckout, { url, session, onReady, onComplete }));
+
+      const handle = await embedded();
+      expect(container.querySelector("iframe")).toBe(handle.element);
+
+      await fake.run(handle);
+      expect(onReady).toHaveBeenCalledTimes(1);
+
+      fake.complete({ paymentSessionId: "ps_1" });
+      await vi.waitFor(() =>
+        expect(onComplete).toHaveBeenCalledWith(
+          expect.objectContaining({ paymentSessionId: "ps_1" })
+        )
+      );
+    });
+
+    it("emits cancel and error", async () => {
+      const onCancel = vi.fn();
+      const onError = vi.fn();
+      mount(() => h(QuentliEmbeddedCheckout, { url, session, onCancel, onError }));
+
+      await fake.run(await embedded());
+      fake.fail("Invalid card number", { fatal: false });
+      await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(expect.any(RemoteError)));
+
+      fake.cancel();
+      await vi.waitFor(() => expect(onCancel).toHaveBeenCalledWith("user_canceled"));
+    });
+
+    it("closes the session on unmount without emitting cancel", async () => {
+      const onCancel = vi.fn();
+      mount(() => h(QuentliEmbeddedCheckout, { url, session, onCancel }));
+      const handle = await embedded();
+
+      app!.unmount();
+      app = null;
+      await nextTick();
+
+      expect(handle.status).toBe("canceled");
+      expect(container.querySelector("iframe")).toBeNull();
+      expect(onCancel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("useQuentli", () => {
+    it("shares one instance with the component and its descendants", () => {
+      const instances: Quentli[] = [];
+      const Child = defineComponent({
+        setup() {
+          instances.push(useQuentli());
+          return () => null;
+        },
+      });
+      app = createApp(
+        defineComponent({
+          setup() {
+            instances.push(useQuentli(), useQuentli());
+            return () => h(Child);
+          },
+        })
+      );
+      app.mount(container);
+
+      expect(instances).toHaveLength(3);
+      expect(new Set(instances).size).toBe(1);
+    });
+
+    it("destroys the instance with the component", () => {
+      let quentli!: Quentli;
+      app = createApp(
+        defineComponent({
+          setup() {
+            quentli = useQuentli();
+            return () => null;
+          },
+        })
+      );
+      app.mount(container);
+
+      app.unmount();
+      app = null;
+
+      expect(() => quentli.paymentSessions).toThrow(InstanceDestroyedError);
+    });
+
+    it("destroys the instance with the effect scope", () => {
+      const scope = effectScope();
+      const quentli = scope.run(() => useQuentli())!;
+
+      scope.stop();
+
+      expect(() => quentli.paymentSessions).toThrow(InstanceDestroyedError);
+    });
+
+    it("throws outside a component or effect scope", () => {
+      expect(() => useQuentli()).toThrow(InvalidStateError);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  InvalidArgumentError,
+  UnsupportedEnvironmentError,
+  WebhookSignatureError,
+} from "../errors";
+import { verifyWebhook } from "../webhooks";
+
+const secret = "whsec_test";
+
+/**
+ * Signature header for a payload signed at the given time, in seconds
+ */
+async function sign(payload: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const digest = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}.${payload}`)
+  );
+  const signature = Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+
+  return `t=${timestamp},v1=${signature}`;
+}
+
+const payload = JSON.stringify({
+  id: "evt_1",
+  created: 1700000000,
+  type: "PAYMENT_COMPLETED",
+  data: { status: "COMPLETE", paymentSessionId: "ps_1" },
+});
+
+describe("verifyWebhook", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns the event when the signature matches", async () => {
+    const event = await verifyWebhook(payload, await sign(payload), secret);
+
+    expect(event).toEqual(JSON.parse(payload));
+  });
+
+  it("rejects a signature made with another secret", async () => {
+    const header = (await sign(payload)).replace(/v1=\w+/, `v1=${"0".repeat(64)}`);
+
+    await expect(verifyWebhook(payload, header, secret)).rejects.toBeInstanceOf(
+      WebhookSignatureError
+    );
+  });
+
+  it("rejects timestamps outside the tolerance", async () => {
+    const header = await sign(payload, 0);
+
+    await expect(verifyWebhook(payload, header, secret)).rejects.toBeInstanceOf(
+      WebhookSignatureError
+    );
+  });
+
+  it.each([NaN, Infinity, -1])("rejects toleranceSeconds %s", async (toleranceSeconds) => {
+    const header = await sign(payload, 0);
+
+    await expect(
+      verifyWebhook(payload, header, secret, { toleranceSeconds })
+    ).rejects.toBeInstanceOf(InvalidArgumentError);
+  });
+
+  it.each([
+    ["null data", { type: "PAYMENT_COMPLETED", data: null }],
+    ["an unknown type", { type: "PAYMENT_REFUNDED", data: {} }],
+  ])("rejects events with %s", async (_case, event) => {
+    const body = JSON.stringify(event);
+
+    await expect(verifyWebhook(body, await sign(body), secret)).rejects.toBeInstanceOf(
+      InvalidArgumentError
+    );
+  });
+
+  it("rejects when the Web Crypto API is missing", async () => {
+    const header = await sign(payload);
+    vi.stubGlobal("crypto", undefined);
+
+    await expect(verifyWebhook(payload, header, secret)).rejects.toBeInstanceOf(
+      UnsupportedEnvironmentError
+    );
+  });
+});
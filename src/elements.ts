@@ -0,0 +1,276 @@
+/**
+ * @quentli/js/elements - Custom elements for embedded Quentli sessions
+ *
+ * Importing this entry point registers `<quentli-checkout>` and `<quentli-setup>`,
+ * which display a payment or setup session embedded in the page and report the
+ * outcome through DOM events. It ships separately so the core bundle stays small.
+ *
+ * @example
+ * ```html
+ * <script type="module">
+ *   import '@quentli/js/elements';
+ * </script>
+ *
+ * <quentli-checkout url="..." access-token="..." csrf-token="..."></quentli-checkout>
+ *
+ * <script>
+ *   document.querySelector('quentli-checkout')
+ *     .addEventListener('quentli-complete', (event) => console.log(event.detail));
+ * </script>
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { Quentli } from "./Quentli";
+import type {
+  CancelReason,
+  PaymentCompletionData,
+  PaymentMethodAddedData,
+  QuentliSessionHandle,
+  SessionType,
+} from "./types";
+
+/**
+ * Detail of the `quentli-cancel` event
+ */
+export interface QuentliCancelEventDetail {
+  reason: CancelReason;
+}
+
+/**
+ * Detail of the `quentli-error` event
+ */
+export interface QuentliErrorEventDetail {
+  error: Error;
+}
+
+/**
+ * Attributes read when mounting the session
+ */
+const OBSERVED_ATTRIBUTES = [
+  "url",
+  "access-token",
+  "csrf-token",
+  "expires-at",
+  "height",
+  "auto-resize",
+];
+
+// Allow importing on the server, where HTMLElement doesn't exist
+const BaseElement: typeof HTMLElement =
+  typeof HTMLElement !== "undefined"
+    ? HTMLElement
+    : (class {} as unknown as typeof HTMLElement);
+
+/**
+ * QuentliSessionElement - Shared behavior of `<quentli-checkout>` and `<quentli-setup>`
+ *
+ * Mounts the session once `url`, `access-token` and `csrf-token` are all set,
+ * remounts when they change and closes it when the element leaves the document.
+ */
+abstract class QuentliSessionElement extends BaseElement {
+  static get observedAttributes(): string[] {
+    return OBSERVED_ATTRIBUTES;
+  }
+
+  protected abstract readonly sessionType: SessionType;
+  private quentli: Quentli | null = null;
+  private handle: QuentliSessionHandle | null = null;
+  private disposeMount: (() => void) | null = null;
+  private mountScheduled = false;
+
+  /**
+   * Handle of the displayed session, once mounted
+   */
+  get session(): QuentliSessionHandle | null {
+    return this.handle;
+  }
+
+  connectedCallback(): void {
+    if (!this.style.display) {
+      this.style.display = "block";
+    }
+    this.scheduleMount();
+  }
+
+  attributeChangedCallback(
+    _name: string,
+    oldValue: string | null,
+    newValue: string | null
+  ): void {
+    if (this.isConnected && oldValue !== newValue) {
+      this.scheduleMount();
+    }
+  }
+
+  disconnectedCallback(): void {
+    this.unmount();
+  }
+
+  /**
+   * Mount once per task so setting several attributes remounts only once
+   */
+  private scheduleMount(): void {
+    if (this.mountScheduled) {
+      return;
+    }
+
+    this.mountScheduled = true;
+    queueMicrotask(() => {
+      this.mountScheduled = false;
+      if (this.isConnected) {
+        void this.mount();
+      }
+    });
+  }
+
+  /**
+   * Display the session inside this element
+   */
+  private async mount(): Promise<void> {
+    const url = this.getAttribute("url");
+    const accessToken = this.getAttribute("access-token");
+    const csrfToken = this.getAttribute("csrf-token");
+
+    // Wait until all required attributes are set
+    if (!url || !accessToken || !csrfToken) {
+      this.unmount();
+      return;
+    }
+
+    this.quentli ??= new Quentli({ debug: this.hasAttribute("debug") });
+
+    // Ignore callbacks once this mount is replaced or removed, so closing the
+    // session on remount or removal doesn't report a cancellation
+    this.disposeMount?.();
+    let disposed = false;
+    let opened: QuentliSessionHandle | null = null;
+    this.disposeMount = () => {
+      disposed = true;
+      opened?.close();
+    };
+
+    let errorReported = false;
+    const options = {
+      url,
+      session: {
+        accessToken,
+        csrfToken,
+        expiresAt: this.getAttribute("expires-at") ?? undefined,
+      },
+      target: this as HTMLElement,
+      height: this.getAttribute("height") ?? undefined,
+      autoResize: this.hasAttribute("auto-resize"),
+      onCancel: (reason: CancelReason) => {
+        if (!disposed) {
+          this.dispatch<QuentliCancelEventDetail>("quentli-cancel", { reason });
+        }
+      },
+      onError: (error: Error) => {
+        errorReported = true;
+        if (!disposed) {
+          this.dispatch<QuentliErrorEventDetail>("quentli-error", { error });
+        }
+      },
+    };
+
+    try {
+      opened =
+        this.sessionType === "payment"
+          ? await this.quentli.paymentSessions.displayEmbedded({
+              ...options,
+              onComplete: (data) => {
+                if (!disposed) {
+                  this.dispatch<PaymentCompletionData>("quentli-complete", data);
+                }
+              },
+            })
+          : await this.quentli.setupSessions.displayEmbedded({
+              ...options,
+              onPaymentMethodAdded: (data) => {
+                if (!disposed) {
+                  this.dispatch<PaymentMethodAddedData>("quentli-complete", data);
+                }
+              },
+            });
+
+      if (disposed) {
+        opened.close();
+      } else {
+        this.handle = opened;
+      }
+    } catch (error) {
+      // Validation errors are thrown without reaching onError
+      if (!disposed && !errorReported) {
+        this.dispatch<QuentliErrorEventDetail>("quentli-error", {
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    }
+  }
+
+  /**
+   * Close the session and release the Quentli instance
+   */
+  private unmount(): void {
+    this.disposeMount?.();
+    this.disposeMount = null;
+    this.handle = null;
+    this.quentli?.destroy();
+    this.quentli = null;
+  }
+
+  private dispatch<T>(type: string, detail: T): void {
+    this.dispatchEvent(
+      new CustomEvent<T>(type, { detail, bubbles: true, composed: true })
+    );
+  }
+}
+
+/**
+ * `<quentli-checkout>` - Embedded payment session
+ *
+ * Dispatches `quentli-complete` (detail: PaymentCompletionData),
+ * `quentli-cancel` (detail: `{ reason }`) and `quentli-error` (detail: `{ error }`).
+ */
+export class QuentliCheckoutElement extends QuentliSessionElement {
+  protected readonly sessionType = "payment";
+}
+
+/**
+ * `<quentli-setup>` - Embedded setup session
+ *
+ * Dispatches `quentli-complete` (detail: PaymentMethodAddedData),
+ * `quentli-cancel` (detail: `{ reason }`) and `quentli-error` (detail: `{ error }`).
+ */
+export class QuentliSetupElement extends QuentliSessionElement {
+  protected readonly sessionType = "setup";
+}
+
+/**
+ * Register `<quentli-checkout>` and `<quentli-setup>`. Called automatically when
+ * this module is imported in a browser; safe to call more than once.
+ */
+export function defineQuentliElements(): void {
+  if (typeof customElements === "undefined") {
+    return;
+  }
+
+  if (!customElements.get("quentli-checkout")) {
+    customElements.define("quentli-checkout", QuentliCheckoutElement);
+  }
+
+  if (!customElements.get("quentli-setup")) {
+    customElements.define("quentli-setup", QuentliSetupElement);
+  }
+}
+
+defineQuentliElements();
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "quentli-checkout": QuentliCheckoutElement;
+    "quentli-setup": QuentliSetupElement;
+  }
+}
@@ -0,0 +1,229 @@
+import type { SessionType } from "./types";
+
+/**
+ * Stable error codes for branching on failures
+ */
+export type QuentliErrorCode =
+  | "POPUP_BLOCKED"
+  | "INVALID_ARGUMENT"
+  | "INSTANCE_DESTROYED"
+  | "ORIGIN_REJECTED"
+  | "SESSION_EXPIRED"
+  | "HANDSHAKE_TIMEOUT"
+  | "REMOTE_ERROR"
+  | "API_ERROR"
+  | "INVALID_SIGNATURE"
+  | "INVALID_STATE"
+  | "UNSUPPORTED_ENVIRONMENT";
+
+/**
+ * Additional context attached to a QuentliError
+ */
+export interface QuentliErrorOptions {
+  /**
+   * Option or message field that caused the error (e.g. `session.accessToken`)
+   */
+  field?: string;
+  /**
+   * Kind of session the error occurred in
+   */
+  sessionType?: SessionType;
+}
+
+/**
+ * QuentliError - Base class for all errors raised by the SDK
+ *
+ * Branch on `code` rather than `message`; messages are meant for developers
+ * and may change between versions.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await quentli.paymentSessions.checkout({ ... });
+ * } catch (error) {
+ *   if (error instanceof QuentliError && error.code === 'POPUP_BLOCKED') {
+ *     showPopupBlockedBanner();
+ *   }
+ * }
+ * ```
+ */
+export class QuentliError extends Error {
+  readonly code: QuentliErrorCode;
+  readonly field?: string;
+  readonly sessionType?: SessionType;
+
+  constructor(
+    code: QuentliErrorCode,
+    message: string,
+    options: QuentliErrorOptions = {}
+  ) {
+    super(message);
+    this.name = "QuentliError";
+    this.code = code;
+    this.field = options.field;
+    this.sessionType = options.sessionType;
+
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * The browser refused to open the popup window
+ */
+export class PopupBlockedError extends QuentliError {
+  constructor(sessionType?: SessionType) {
+    super(
+      "POPUP_BLOCKED",
+      "Failed to open popup window. Please allow popups for this site.",
+      { sessionType }
+    );
+    this.name = "PopupBlockedError";
+  }
+}
+
+/**
+ * A required argument is missing or invalid
+ */
+export class InvalidArgumentError extends QuentliError {
+  constructor(message: string, field?: string, sessionType?: SessionType) {
+    super("INVALID_ARGUMENT", message, { field, sessionType });
+    this.name = "InvalidArgumentError";
+  }
+}
+
+/**
+ * The Quentli instance was used after destroy()
+ */
+export class InstanceDestroyedError extends QuentliError {
+  constructor() {
+    super("INSTANCE_DESTROYED", "Quentli instance has been destroyed");
+    this.name = "InstanceDestroyedError";
+  }
+}
+
+/**
+ * A message was rejected because of its origin or source window
+ */
+export class OriginRejectedError extends QuentliError {
+  constructor(origin: string, sessionType?: SessionType) {
+    super("ORIGIN_REJECTED", `Rejected message from ${origin}`, {
+      field: "origin",
+      sessionType,
+    });
+    this.name = "OriginRejectedError";
+  }
+}
+
+/**
+ * The session credentials have expired
+ */
+export class SessionExpiredError extends QuentliError {
+  constructor(sessionType?: SessionType) {
+    super("SESSION_EXPIRED", "Session credentials have expired", {
+      field: "session.expiresAt",
+      sessionType,
+    });
+    this.name = "SessionExpiredError";
+  }
+}
+
+/**
+ * The hosted page did not complete the READY/INIT handshake in time
+ */
+export class HandshakeTimeoutError extends QuentliError {
+  constructor(timeoutMs: number, sessionType?: SessionType) {
+    super(
+      "HANDSHAKE_TIMEOUT",
+      `Hosted page did not respond within ${timeoutMs}ms`,
+      { sessionType }
+    );
+    this.name = "HandshakeTimeoutError";
+  }
+}
+
+/**
+ * The hosted page reported an error
+ */
+export class RemoteError extends QuentliError {
+  /**
+   * Error code reported by the hosted page
+   */
+  readonly remoteCode?: string;
+  /**
+   * Whether the hosted page cannot recover; non-fatal errors leave the session open
+   */
+  readonly fatal: boolean;
+
+  constructor(
+    message: string,
+    sessionType?: SessionType,
+    remoteCode?: string,
+    fatal = false
+  ) {
+    super("REMOTE_ERROR", message, { sessionType });
+    this.name = "RemoteError";
+    this.remoteCode = remoteCode;
+    this.fatal = fatal;
+  }
+}
+
+/**
+ * The Quentli API rejected a server-side request
+ */
+export class ApiError extends QuentliError {
+  /**
+   * HTTP status of the response
+   */
+  readonly status: number;
+  /**
+   * Parsed response body, when it was JSON
+   */
+  readonly body?: unknown;
+
+  constructor(message: string, status: number, body?: unknown) {
+    super("API_ERROR", message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * A webhook failed signature or timestamp verification
+ */
+export class WebhookSignatureError extends QuentliError {
+  constructor(message: string) {
+    super("INVALID_SIGNATURE", message, { field: "signature" });
+    this.name = "WebhookSignatureError";
+  }
+}
+
+/**
+ * An SDK method was called at a time it can't be used, e.g. a React hook
+ * outside its provider
+ */
+export class InvalidStateError extends QuentliError {
+  constructor(message: string) {
+    super("INVALID_STATE", message);
+    this.name = "InvalidStateError";
+  }
+}
+
+/**
+ * The runtime lacks an API the SDK needs, such as Web Crypto
+ */
+export class UnsupportedEnvironmentError extends QuentliError {
+  constructor(message: string) {
+    super("UNSUPPORTED_ENVIRONMENT", message);
+    this.name = "UnsupportedEnvironmentError";
+  }
+}
+
+/**
+ * Whether an error ends its session. The session stays open after non-fatal
+ * errors reported by the hosted page, such as a failed validation.
+ */
+export function isTerminalError(error: unknown): boolean {
+  return !(error instanceof RemoteError && !error.fatal);
+}
@@ -12,22 +12,71 @@ export { Quentli, PaymentSessions, SetupSessions } from './Quentli';
 
 export type {
   QuentliConfig,
+  SecurityViolation,
+  SecurityViolationReason,
   QuentliAuthSession as QuentliSession,
+  QuentliAppearance,
+  QuentliAppearanceColors,
+  QuentliLocale,
+  QuentliPrefill,
+  QuentliAddress,
   PaymentStatus,
   DisplayMode,
+  PopupFallback,
+  SessionType,
+  SessionStatus,
+  SessionHandleEvents,
+  QuentliSessionHandle,
+  QuentliEventBase,
+  QuentliEvents,
   PaymentCompletionData,
   PaymentMethodData,
   PaymentMethodAddedData,
+  WebhookEventBase,
+  PaymentCompletedWebhookEvent,
+  PaymentMethodAddedWebhookEvent,
+  WebhookEvent,
+  PaymentFailureData,
+  PaymentProcessingData,
+  StepChangeData,
+  CancelReason,
+  SessionResult,
+  PaymentSessionResult,
+  SetupSessionResult,
   DisplayPopupOptions,
   DisplayEmbeddedOptions,
+  DisplayModalOptions,
   DisplayPageOptions,
   SetupSessionDisplayPopupOptions,
   SetupSessionDisplayEmbeddedOptions,
+  SetupSessionDisplayModalOptions,
   SetupSessionDisplayPageOptions,
+  HandleRedirectReturnOptions,
+  RedirectReturnResult,
+  MessageTransport,
   QuentliMessageType,
   QuentliMessage,
+  QuentliCapability,
 } from './types';
 
+export { SDK_VERSION, PROTOCOL_VERSION } from './version';
+
+export {
+  QuentliError,
+  PopupBlockedError,
+  InvalidArgumentError,
+  InstanceDestroyedError,
+  OriginRejectedError,
+  SessionExpiredError,
+  HandshakeTimeoutError,
+  RemoteError,
+  InvalidStateError,
+  UnsupportedEnvironmentError,
+  isTerminalError,
+} from './errors';
+
+export type { QuentliErrorCode, QuentliErrorOptions } from './errors';
+
 // Re-export utilities for advanced use cases
 export {
   calculatePopupPosition,
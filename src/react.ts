@@ -0,0 +1,497 @@
+/**
+ * @quentli/js/react - React bindings for Quentli
+ *
+ * Wraps the SDK in a provider, hooks and embedded components that own the
+ * Quentli instance and session lifecycles, so sessions are opened and closed
+ * correctly across remounts (including StrictMode's double mounting).
+ *
+ * @example
+ * ```tsx
+ * import { QuentliProvider, EmbeddedCheckout } from '@quentli/js/react';
+ *
+ * function CheckoutPage({ session }) {
+ *   return (
+ *     <QuentliProvider>
+ *       <EmbeddedCheckout
+ *         url={session.url}
+ *         session={session.session}
+ *         onComplete={(data) => console.log('Payment completed:', data)}
+ *       />
+ *     </QuentliProvider>
+ *   );
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import type { ReactElement, ReactNode } from "react";
+import { Quentli } from "./Quentli";
+import { InvalidStateError, isTerminalError } from "./errors";
+import type {
+  CancelReason,
+  DisplayEmbeddedOptions,
+  DisplayModalOptions,
+  DisplayPopupOptions,
+  PaymentCompletionData,
+  PaymentMethodAddedData,
+  PaymentSessionResult,
+  QuentliConfig,
+  QuentliSessionHandle,
+  SessionStatus,
+  SetupSessionDisplayEmbeddedOptions,
+  SetupSessionDisplayModalOptions,
+  SetupSessionDisplayPopupOptions,
+  SetupSessionResult,
+} from "./types";
+
+const QuentliContext = createContext<Quentli | null | undefined>(undefined);
+
+/**
+ * Props of QuentliProvider
+ */
+export interface QuentliProviderProps {
+  /**
+   * Configuration of the Quentli instance. Read once when the provider mounts.
+   */
+  config?: QuentliConfig;
+  children?: ReactNode;
+}
+
+/**
+ * QuentliProvider - Owns the Quentli instance shared by its children
+ *
+ * The instance is created after mount and destroyed on unmount, closing any
+ * session still open.
+ */
+export function QuentliProvider({
+  config,
+  children,
+}: QuentliProviderProps): ReactElement {
+  const [quentli, setQuentli] = useState<Quentli | null>(null);
+  const configRef = useRef(config);
+
+  useEffect(() => {
+    // Create the instance in the effect so StrictMode's remount gets a fresh one
+    const instance = new Quentli(configRef.current);
+    setQuentli(instance);
+
+    return () => {
+      // Let children close their own sessions before the instance goes away
+      queueMicrotask(() => instance.destroy());
+    };
+  }, []);
+
+  return createElement(QuentliContext.Provider, { value: quentli }, children);
+}
+
+/**
+ * Access the Quentli instance of the nearest QuentliProvider
+ *
+ * Returns `null` until the provider has mounted.
+ */
+export function useQuentli(): Quentli | null {
+  const quentli = useContext(QuentliContext);
+
+  if (quentli === undefined) {
+    throw new InvalidStateError("useQuentli must be used within a QuentliProvider");
+  }
+
+  return quentli;
+}
+
+/**
+ * Status reported by the session hooks; `'idle'` until `open()` is called
+ */
+export type SessionHookStatus = SessionStatus | "idle";
+
+/**
+ * Options accepted by `usePaymentSession().open()`
+ */
+export type PaymentSessionOpenOptions =
+  | ({ displayMode?: "popup" } & DisplayPopupOptions)
+  | ({ displayMode: "modal" } & DisplayModalOptions);
+
+/**
+ * Options accepted by `useSetupSession().open()`
+ */
+export type SetupSessionOpenOptions =
+  | ({ displayMode?: "popup" } & SetupSessionDisplayPopupOptions)
+  | ({ displayMode: "modal" } & SetupSessionDisplayModalOptions);
+
+/**
+ * State and controls returned by the session hooks
+ */
+export interface SessionHookResult<TOptions, TResult> {
+  /**
+   * Open the session in a popup (default) or modal. Errors are reported through `error`.
+   */
+  open: (options: TOptions) => Promise<void>;
+  /**
+   * Lifecycle status of the most recently opened session
+   */
+  status: SessionHookStatus;
+  /**
+   * Outcome of the most recently opened session, once it has ended
+   */
+  result: TResult | null;
+  /**
+   * Error that ended the most recently opened session or prevented it from opening
+   */
+  error: Error | null;
+}
+
+/**
+ * Track the state of the latest session opened by a hook and close it on unmount
+ */
+function useSessionState<TResult>() {
+  const [status, setStatus] = useState<SessionHookStatus>("idle");
+  const [result, setResult] = useState<TResult | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const handleRef = useRef<QuentliSessionHandle | null>(null);
+
+  useEffect(() => {
+    return () => {
+      handleRef.current?.close();
+      handleRef.current = null;
+    };
+  }, []);
+
+  const start = useCallback(() => {
+    handleRef.current?.close();
+    handleRef.current = null;
+    setStatus("opening");
+    setResult(null);
+    setError(null);
+  }, []);
+
+  const attach = useCallback((handle: QuentliSessionHandle) => {
+    handleRef.current = handle;
+    setStatus(handle.status);
+    handle.on("status", setStatus);
+  }, []);
+
+  const fail = useCallback((error: Error) => {
+    if (!isTerminalError(error)) {
+      return;
+    }
+
+    setError(error);
+    setStatus("errored");
+  }, []);
+
+  return { status, result, error, setResult, start, attach, fail };
+}
+
+/**
+ * Open payment sessions in a popup or modal and track their outcome
+ *
+ * Must be used within a QuentliProvider. The open session is closed when the
+ * component unmounts.
+ *
+ * @example
+ * ```tsx
+ * const { open, status, result, error } = usePaymentSession();
+ *
+ * <button onClick={() => open({ url, session })} disabled={status === 'opening'}>
+ *   Pay
+ * </button>
+ * ```
+ */
+export function usePaymentSession(): SessionHookResult<
+  PaymentSessionOpenOptions,
+  PaymentSessionResult
+> {
+  const quentli = useQuentli();
+  const state = useSessionState<PaymentSessionResult>();
+  const { setResult, start, attach, fail } = state;
+
+  const open = useCallback(
+    async (options: PaymentSessionOpenOptions) => {
+      if (!quentli) {
+        fail(new InvalidStateError("Quentli is not ready yet"));
+        return;
+      }
+
+      start();
+
+      const track = <T extends DisplayPopupOptions | DisplayModalOptions>(
+        displayOptions: T
+      ): T => ({
+        ...displayOptions,
+        onComplete: (data: PaymentCompletionData) => {
+          setResult({ status: "complete", data });
+          displayOptions.onComplete?.(data);
+        },
+        onCancel: (reason: CancelReason) => {
+          setResult({ status: "canceled", reason });
+          displayOptions.onCancel?.(reason);
+        },
+        onError: (error: Error) => {
+          fail(error);
+          displayOptions.onError?.(error);
+        },
+      });
+
+      try {
+        attach(
+          options.displayMode === "modal"
+            ? await quentli.paymentSessions.displayModal(track(options))
+            : await quentli.paymentSessions.displayPopup(track(options))
+        );
+      } catch (error) {
+        fail(error instanceof Error ? error : new Error(String(error)));
+      }
+    },
+    [quentli, setResult, start, attach, fail]
+  );
+
+  return { open, status: state.status, result: state.result, error: state.error };
+}
+
+/**
+ * Open setup sessions in a popup or modal and track their outcome
+ *
+ * Must be used within a QuentliProvider. The open session is closed when the
+ * component unmounts.
+ */
+export function useSetupSession(): SessionHookResult<
+  SetupSessionOpenOptions,
+  SetupSessionResult
+> {
+  const quentli = useQuentli();
+  const state = useSessionState<SetupSessionResult>();
+  const { setResult, start, attach, fail } = state;
+
+  const open = useCallback(
+    async (options: SetupSessionOpenOptions) => {
+      if (!quentli) {
+        fail(new InvalidStateError("Quentli is not ready yet"));
+        return;
+      }
+
+      start();
+
+      const track = <
+        T extends SetupSessionDisplayPopupOptions | SetupSessionDisplayModalOptions,
+      >(
+        displayOptions: T
+      ): T => ({
+        ...displayOptions,
+        onPaymentMethodAdded: (data: PaymentMethodAddedData) => {
+          setResult({ status: "complete", data });
+          displayOptions.onPaymentMethodAdded?.(data);
+        },
+        onCancel: (reason: CancelReason) => {
+          setResult({ status: "canceled", reason });
+          displayOptions.onCancel?.(reason);
+        },
+        onError: (error: Error) => {
+          fail(error);
+          displayOptions.onError?.(error);
+        },
+      });
+
+      try {
+        attach(
+          options.displayMode === "modal"
+            ? await quentli.setupSessions.displayModal(track(options))
+            : await quentli.setupSessions.displayPopup(track(options))
+        );
+      } catch (error) {
+        fail(error instanceof Error ? error : new Error(String(error)));
+      }
+    },
+    [quentli, setResult, start, attach, fail]
+  );
+
+  return { open, status: state.status, result: state.result, error: state.error };
+}
+
+/**
+ * Props of EmbeddedCheckout
+ */
+export type EmbeddedCheckoutProps = Omit<DisplayEmbeddedOptions, "target"> & {
+  /**
+   * CSS class of the element the iframe is mounted in
+   */
+  containerClassName?: string;
+};
+
+/**
+ * Props of EmbeddedSetup
+ */
+export type EmbeddedSetupProps = Omit<SetupSessionDisplayEmbeddedOptions, "target"> & {
+  /**
+   * CSS class of the element the iframe is mounted in
+   */
+  containerClassName?: string;
+};
+
+/**
+ * Mount an embedded session into `containerRef` while the component is mounted
+ *
+ * The session is remounted when the URL or credentials change, and updated
+ * in place when `appearance` or `locale` change. Other options are read when the session
+ * mounts; callbacks passed at that point always call the latest props.
+ */
+function useEmbeddedSession<TProps extends EmbeddedCheckoutProps | EmbeddedSetupProps>(
+  props: TProps,
+  display: (
+    quentli: Quentli,
+    options: TProps & { target: HTMLElement }
+  ) => Promise<QuentliSessionHandle>
+) {
+  const quentli = useQuentli();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const propsRef = useRef(props);
+  propsRef.current = props;
+  const handleRef = useRef<QuentliSessionHandle | null>(null);
+  const mountedAppearanceRef = useRef<string | undefined>(undefined);
+  const mountedLocaleRef = useRef<string | undefined>(undefined);
+
+  const { url } = props;
+  const { accessToken, csrfToken, expiresAt } = props.session;
+
+  useEffect(() => {
+    const target = containerRef.current;
+    if (!quentli || !target) {
+      return;
+    }
+
+    // Ignore callbacks once this effect is cleaned up, so closing the session
+    // on unmount or remount doesn't report a cancellation
+    let disposed = false;
+    let errorReported = false;
+    let handle: QuentliSessionHandle | null = null;
+
+    mountedAppearanceRef.current = JSON.stringify(propsRef.current.appearance);
+    mountedLocaleRef.current = propsRef.current.locale;
+
+    // Forward callbacks to the latest props
+    const options: Record<string, unknown> = { target };
+    for (const [key, value] of Object.entries(propsRef.current)) {
+      options[key] =
+        typeof value === "function"
+          ? (...args: unknown[]) => {
+              const callback = (propsRef.current as Record<string, unknown>)[key];
+              if (!disposed && typeof callback === "function") {
+                return callback(...args);
+              }
+            }
+          : value;
+    }
+    options.onError = (error: Error) => {
+      errorReported = true;
+      if (!disposed) {
+        propsRef.current.onError?.(error);
+      }
+    };
+
+    display(quentli, options as unknown as TProps & { target: HTMLElement })
+      .then((opened) => {
+        if (disposed) {
+          opened.close();
+        } else {
+          handle = opened;
+          handleRef.current = opened;
+        }
+      })
+      .catch((error: unknown) => {
+        // Validation errors are thrown without reaching onError
+        if (!disposed && !errorReported) {
+          propsRef.current.onError?.(
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
+      });
+
+    return () => {
+      disposed = true;
+      handle?.close();
+      handleRef.current = null;
+    };
+  }, [quentli, display, url, accessToken, csrfToken, expiresAt]);
+
+  // Compare by value so inline appearance objects don't resend on every render
+  const appearance = JSON.stringify(props.appearance);
+  useEffect(() => {
+    if (appearance === mountedAppearanceRef.current) {
+      return;
+    }
+
+    mountedAppearanceRef.current = appearance;
+    const { appearance: latest } = propsRef.current;
+    if (handleRef.current && latest) {
+      handleRef.current.updateAppearance(latest);
+    }
+  }, [appearance]);
+
+  const { locale } = props;
+  useEffect(() => {
+    if (locale === mountedLocaleRef.current) {
+      return;
+    }
+
+    mountedLocaleRef.current = locale;
+    if (handleRef.current && locale) {
+      handleRef.current.setLocale(locale);
+    }
+  }, [locale]);
+
+  return containerRef;
+}
+
+const displayEmbeddedCheckout = (
+  quentli: Quentli,
+  { containerClassName: _containerClassName, ...options }: EmbeddedCheckoutProps & {
+    target: HTMLElement;
+  }
+) =>
+  quentli.paymentSessions.displayEmbedded(options);
+
+const displayEmbeddedSetup = (
+  quentli: Quentli,
+  { containerClassName: _containerClassName, ...options }: EmbeddedSetupProps & {
+    target: HTMLElement;
+  }
+) => quentli.setupSessions.displayEmbedded(options);
+
+/**
+ * EmbeddedCheckout - Payment session embedded in the page
+ *
+ * Must be used within a QuentliProvider. Accepts the same options as
+ * `paymentSessions.displayEmbedded()`, except `target`.
+ */
+export function EmbeddedCheckout(props: EmbeddedCheckoutProps): ReactElement {
+  const containerRef = useEmbeddedSession(props, displayEmbeddedCheckout);
+
+  return createElement("div", {
+    ref: containerRef,
+    className: props.containerClassName,
+  });
+}
+
+/**
+ * EmbeddedSetup - Setup session embedded in the page
+ *
+ * Must be used within a QuentliProvider. Accepts the same options as
+ * `setupSessions.displayEmbedded()`, except `target`.
+ */
+export function EmbeddedSetup(props: EmbeddedSetupProps): ReactElement {
+  const containerRef = useEmbeddedSession(props, displayEmbeddedSetup);
+
+  return createElement("div", {
+    ref: containerRef,
+    className: props.containerClassName,
+  });
+}
@@ -0,0 +1,315 @@
+/**
+ * @quentli/js/server - Server-side client for the Quentli API
+ *
+ * Creates and retrieves payment and setup sessions from your backend and
+ * verifies webhooks. The returned `url` and `session` plug directly into the
+ * browser SDK's display options. Never import this entry point in browser
+ * code: it needs your secret API key.
+ *
+ * @example
+ * ```typescript
+ * import { QuentliServer } from '@quentli/js/server';
+ *
+ * const quentli = new QuentliServer({ apiKey: process.env.QUENTLI_API_KEY });
+ *
+ * app.post('/checkout', async (req, res) => {
+ *   const { url, session } = await quentli.createPaymentSession({ ... });
+ *   res.json({ url, session });
+ * });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { ApiError, InvalidArgumentError } from "./errors";
+import type { QuentliAuthSession, SessionType } from "./types";
+
+export { ApiError, UnsupportedEnvironmentError, WebhookSignatureError } from "./errors";
+export { verifyWebhook } from "./webhooks";
+export type { VerifyWebhookOptions } from "./webhooks";
+export type {
+  PaymentCompletionData,
+  PaymentMethodAddedData,
+  PaymentMethodData,
+  QuentliAuthSession as QuentliSession,
+  SessionType,
+  WebhookEventBase,
+  PaymentCompletedWebhookEvent,
+  PaymentMethodAddedWebhookEvent,
+  WebhookEvent,
+} from "./types";
+
+/**
+ * Default base URL of the Quentli API
+ */
+const DEFAULT_BASE_URL = "https://api.quentli.com";
+
+/**
+ * API path of each session type
+ */
+const SESSION_PATHS: Record<SessionType, string> = {
+  payment: "/v1/payment-sessions",
+  setup: "/v1/setup-sessions",
+};
+
+/**
+ * Configuration options for QuentliServer
+ */
+export interface QuentliServerConfig {
+  /**
+   * Secret API key, sent as a bearer token
+   */
+  apiKey: string;
+  /**
+   * Base URL of the Quentli API
+   * @default 'https://api.quentli.com'
+   */
+  baseUrl?: string;
+  /**
+   * Fetch implementation, e.g. to point tests at a mock server
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Request body of `createPaymentSession()`. See the Quentli API documentation
+ * for the supported fields.
+ */
+export interface CreatePaymentSessionParams {
+  [key: string]: unknown;
+}
+
+/**
+ * Request body of `createSetupSession()`. See the Quentli API documentation
+ * for the supported fields.
+ */
+export interface CreateSetupSessionParams {
+  [key: string]: unknown;
+}
+
+/**
+ * Session returned by the Quentli API
+ */
+export interface ServerSession {
+  /**
+   * Session identifier, when returned by the API
+   */
+  id?: string;
+  /**
+   * Kind of session
+   */
+  sessionType: SessionType;
+  /**
+   * Hosted page URL; pass as `url` to the display methods
+   */
+  url: string;
+  /**
+   * Browser credentials; pass as `session` to the display methods
+   */
+  session: QuentliAuthSession;
+  /**
+   * Full response body
+   */
+  raw: Record<string, unknown>;
+}
+
+/**
+ * QuentliServer - Client for the session endpoints of the Quentli API
+ *
+ * @example
+ * ```typescript
+ * const quentli = new QuentliServer({ apiKey: process.env.QUENTLI_API_KEY });
+ *
+ * // Backend
+ * const { url, session } = await quentli.createSetupSession({ ... });
+ *
+ * // Browser
+ * quentli.setupSessions.displayPopup({ url, session, onPaymentMethodAdded });
+ * ```
+ */
+export class QuentliServer {
+  private apiKey: string;
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(config: QuentliServerConfig) {
+    // Validate required arguments for JavaScript users
+    if (!config || typeof config !== "object") {
+      throw new InvalidArgumentError("config is required", "config");
+    }
+
+    if (!config.apiKey || typeof config.apiKey !== "string") {
+      throw new InvalidArgumentError(
+        "apiKey is required and must be a string",
+        "apiKey"
+      );
+    }
+
+    const fetchImpl = config.fetch ?? globalThis.fetch;
+    if (typeof fetchImpl !== "function") {
+      throw new InvalidArgumentError(
+        "fetch is not available; pass a fetch implementation",
+        "fetch"
+      );
+    }
+
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+    this.fetchImpl = fetchImpl;
+  }
+
+  /**
+   * Create a payment session
+   */
+  async createPaymentSession(
+    params: CreatePaymentSessionParams = {}
+  ): Promise<ServerSession> {
+    return this.createSession("payment", params);
+  }
+
+  /**
+   * Create a setup session
+   */
+  async createSetupSession(
+    params: CreateSetupSessionParams = {}
+  ): Promise<ServerSession> {
+    return this.createSession("setup", params);
+  }
+
+  /**
+   * Retrieve an existing session, e.g. to get fresh credentials for
+   * `refreshSession`
+   */
+  async retrieveSession(
+    sessionType: SessionType,
+    id: string
+  ): Promise<ServerSession> {
+    // Validate required arguments for JavaScript users
+    if (sessionType !== "payment" && sessionType !== "setup") {
+      throw new InvalidArgumentError(
+        "sessionType must be 'payment' or 'setup'",
+        "sessionType"
+      );
+    }
+
+    if (!id || typeof id !== "string") {
+      throw new InvalidArgumentError(
+        "id is required and must be a string",
+        "id",
+        sessionType
+      );
+    }
+
+    const response = await this.request(
+      "GET",
+      `${SESSION_PATHS[sessionType]}/${encodeURIComponent(id)}`
+    );
+    return this.toServerSession(sessionType, response);
+  }
+
+  private async createSession(
+    sessionType: SessionType,
+    params: Record<string, unknown>
+  ): Promise<ServerSession> {
+    // Validate required arguments for JavaScript users
+    if (!params || typeof params !== "object") {
+      throw new InvalidArgumentError(
+        "params must be an object",
+        "params",
+        sessionType
+      );
+    }
+
+    const response = await this.request(
+      "POST",
+      SESSION_PATHS[sessionType],
+      params
+    );
+    return this.toServerSession(sessionType, response);
+  }
+
+  /**
+   * Send an authenticated request and parse the JSON response
+   */
+  private async request(
+    method: "GET" | "POST",
+    path: string,
+    payload?: Record<string, unknown>
+  ): Promise<{ status: number; body: Record<string, unknown> }> {
+    const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        Accept: "application/json",
+        ...(payload ? { "Content-Type": "application/json" } : {}),
+      },
+      body: payload ? JSON.stringify(payload) : undefined,
+    });
+
+    const text = await response.text();
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      body = undefined;
+    }
+
+    if (!response.ok) {
+      const message = (body as { message?: unknown } | undefined)?.message;
+      throw new ApiError(
+        typeof message === "string"
+          ? message
+          : `Quentli API request failed with status ${response.status}`,
+        response.status,
+        body
+      );
+    }
+
+    if (!body || typeof body !== "object") {
+      throw new ApiError(
+        "Quentli API returned an invalid response",
+        response.status,
+        body
+      );
+    }
+
+    return { status: response.status, body: body as Record<string, unknown> };
+  }
+
+  /**
+   * Pick the fields the browser SDK needs out of a session response
+   */
+  private toServerSession(
+    sessionType: SessionType,
+    { status, body }: { status: number; body: Record<string, unknown> }
+  ): ServerSession {
+    const session = body.session as Partial<QuentliAuthSession> | undefined;
+
+    if (
+      typeof body.url !== "string" ||
+      !session ||
+      typeof session.accessToken !== "string" ||
+      typeof session.csrfToken !== "string"
+    ) {
+      throw new ApiError(
+        "Quentli API response is missing url or session credentials",
+        status,
+        body
+      );
+    }
+
+    return {
+      id: typeof body.id === "string" ? body.id : undefined,
+      sessionType,
+      url: body.url,
+      session: {
+        accessToken: session.accessToken,
+        csrfToken: session.csrfToken,
+        expiresAt:
+          typeof session.expiresAt === "string" ? session.expiresAt : undefined,
+      },
+      raw: body,
+    };
+  }
+}
@@ -0,0 +1,348 @@
+/**
+ * @quentli/js/testing - Fake hosted checkout for offline tests
+ *
+ * Plays the hosted page's side of the protocol (READY, INIT, PAYMENT_COMPLETED,
+ * PAYMENT_METHOD_ADDED, ERROR) against sessions opened by the SDK, so checkout
+ * flows can be tested in jsdom or happy-dom without network access.
+ *
+ * @example
+ * ```typescript
+ * import { FakeCheckout } from '@quentli/js/testing';
+ *
+ * const fake = new FakeCheckout({ behavior: 'complete' });
+ * fake.install(); // Stub window.open for popups
+ *
+ * const onComplete = vi.fn();
+ * const handle = await quentli.paymentSessions.displayPopup({ url, session, onComplete });
+ * await fake.run(handle);
+ *
+ * expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ status: 'COMPLETE' }));
+ * fake.uninstall();
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { InvalidArgumentError } from "./errors";
+import type {
+  QuentliCapability,
+  QuentliMessage,
+  QuentliSessionHandle,
+} from "./types";
+import { PROTOCOL_VERSION, SDK_CAPABILITIES } from "./version";
+
+/**
+ * Script followed by the fake checkout once `run()` is called
+ *
+ * - `complete`: handshake, then report success
+ * - `cancel`: handshake, then report that the user canceled
+ * - `error`: handshake, then report an error
+ * - `never-ready`: never post READY, e.g. to test handshake timeouts
+ * - `manual`: handshake only; drive the rest with `complete()`, `cancel()`,
+ *   `fail()` or `send()`
+ */
+export type FakeCheckoutBehavior =
+  | "complete"
+  | "cancel"
+  | "error"
+  | "never-ready"
+  | "manual";
+
+/**
+ * Options for FakeCheckout
+ */
+export interface FakeCheckoutOptions {
+  /**
+   * Script to follow
+   * @default 'complete'
+   */
+  behavior?: FakeCheckoutBehavior;
+  /**
+   * Delay before posting READY, in milliseconds
+   * @default 0
+   */
+  readyDelayMs?: number;
+  /**
+   * Delay between the handshake and the scripted outcome, in milliseconds
+   * @default 0
+   */
+  delayMs?: number;
+  /**
+   * Fields merged into the completion message (PAYMENT_COMPLETED or PAYMENT_METHOD_ADDED)
+   */
+  data?: Record<string, unknown>;
+  /**
+   * Error reported by the `error` behavior
+   */
+  error?: {
+    message?: string;
+    code?: string;
+    /**
+     * @default true
+     */
+    fatal?: boolean;
+  };
+  /**
+   * Origin the fake page posts from. Defaults to the origin of the session URL.
+   */
+  origin?: string;
+  /**
+   * Protocol version reported with READY, e.g. to test version mismatches
+   * @default the SDK's protocol version
+   */
+  protocolVersion?: number;
+  /**
+   * Capabilities reported with READY
+   * @default the SDK's capabilities
+   */
+  capabilities?: QuentliCapability[];
+}
+
+/**
+ * Stand-in for the popup window returned by the stubbed `window.open`
+ */
+export interface FakePopupWindow {
+  /**
+   * URL the SDK opened
+   */
+  readonly url: string;
+  closed: boolean;
+  close(): void;
+  focus(): void;
+  postMessage(message: unknown, targetOrigin: string, transfer?: Transferable[]): void;
+}
+
+const wait = (ms: number): Promise<void> =>
+  ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+
+/**
+ * FakeCheckout - Scriptable fake of the hosted checkout and setup pages
+ *
+ * One instance drives one session at a time: `run()` attaches to a session
+ * handle, performs the READY/INIT handshake and plays the configured behavior.
+ */
+export class FakeCheckout {
+  /**
+   * Popups opened through the stubbed `window.open`, oldest first
+   */
+  readonly popups: FakePopupWindow[] = [];
+  /**
+   * Messages the SDK posted to the fake page (e.g. INIT)
+   */
+  readonly received: QuentliMessage[] = [];
+  private options: FakeCheckoutOptions;
+  private originalOpen: typeof window.open | null = null;
+  private handle: QuentliSessionHandle | null = null;
+  private source: Window | FakePopupWindow | null = null;
+  private origin = "";
+  private port: MessagePort | null = null;
+
+  constructor(options: FakeCheckoutOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Credentials and settings the SDK sent in INIT, once the handshake is done
+   */
+  get initMessage(): QuentliMessage | null {
+    return this.received.find((message) => message.type === "INIT") ?? null;
+  }
+
+  /**
+   * Replace `window.open` with a stub returning fake popup windows
+   */
+  install(): void {
+    if (this.originalOpen) {
+      return;
+    }
+
+    this.originalOpen = window.open;
+    window.open = ((url?: string | URL) => {
+      const popup: FakePopupWindow = {
+        url: String(url ?? ""),
+        closed: false,
+        close() {
+          popup.closed = true;
+        },
+        focus() {},
+        postMessage() {},
+      };
+      this.popups.push(popup);
+      return popup as unknown as Window;
+    }) as typeof window.open;
+  }
+
+  /**
+   * Restore the original `window.open`
+   */
+  uninstall(): void {
+    if (this.originalOpen) {
+      window.open = this.originalOpen;
+      this.originalOpen = null;
+    }
+  }
+
+  /**
+   * Attach to the session's popup or iframe and play the configured behavior.
+   * Resolves once the scripted messages have been posted.
+   */
+  async run(handle: QuentliSessionHandle): Promise<void> {
+    const { behavior = "complete", readyDelayMs = 0, delayMs = 0 } = this.options;
+    const popup = this.popups.find((candidate) => candidate === (handle.window as unknown));
+    const source = popup ?? handle.element?.contentWindow ?? null;
+
+    // Validate required arguments for JavaScript users
+    if (!source) {
+      throw new InvalidArgumentError(
+        "Session has no popup or iframe to attach to; call install() before opening popups",
+        "handle",
+        handle.sessionType
+      );
+    }
+
+    this.handle = handle;
+    this.source = source;
+    this.origin =
+      this.options.origin ?? new URL(popup?.url ?? handle.element?.src ?? "").origin;
+    this.port = null;
+
+    // Capture what the SDK posts to the page, including the transferred port
+    source.postMessage = ((
+      message: QuentliMessage,
+      _targetOrigin: string,
+      transfer?: Transferable[]
+    ) => {
+      this.received.push(message);
+      if (message.type === "INIT" && transfer?.[0] instanceof MessagePort) {
+        this.port = transfer[0];
+        this.port.onmessage = (event: MessageEvent) => this.received.push(event.data);
+      }
+    }) as typeof source.postMessage;
+
+    if (behavior === "never-ready") {
+      return;
+    }
+
+    await wait(readyDelayMs);
+    this.postToWindow({
+      type: "READY",
+      protocolVersion: this.options.protocolVersion ?? PROTOCOL_VERSION,
+      version: "fake",
+      capabilities: this.options.capabilities ?? [...SDK_CAPABILITIES],
+    });
+
+    if (behavior === "manual") {
+      return;
+    }
+
+    await wait(delayMs);
+    if (behavior === "complete") {
+      this.complete();
+    } else if (behavior === "cancel") {
+      this.cancel();
+    } else {
+      const { message = "Simulated error", code, fatal = true } = this.options.error ?? {};
+      this.fail(message, { code, fatal });
+    }
+  }
+
+  /**
+   * Report success: PAYMENT_COMPLETED for payment sessions, PAYMENT_METHOD_ADDED
+   * for setup sessions
+   */
+  complete(data: Record<string, unknown> = {}): void {
+    const handle = this.requireHandle();
+    const fields = { ...this.options.data, ...data };
+
+    this.send(
+      handle.sessionType === "payment"
+        ? {
+            type: "PAYMENT_COMPLETED",
+            status: "COMPLETE",
+            paymentSessionId: "ps_test",
+            ...fields,
+          }
+        : {
+            type: "PAYMENT_METHOD_ADDED",
+            paymentMethod: { id: "pm_test", type: "card" },
+            ...fields,
+          }
+    );
+  }
+
+  /**
+   * Report that the user canceled. Setup sessions have no cancel message, so
+   * their popup is closed instead.
+   */
+  cancel(): void {
+    const handle = this.requireHandle();
+
+    if (handle.sessionType === "payment") {
+      this.send({ type: "PAYMENT_COMPLETED", status: "CANCELED" });
+    } else if (this.popups.includes(this.source as FakePopupWindow)) {
+      this.closeWindow();
+    } else {
+      throw new InvalidArgumentError(
+        "Embedded setup sessions can't be canceled by the hosted page",
+        "behavior",
+        handle.sessionType
+      );
+    }
+  }
+
+  /**
+   * Report an error; fatal errors end the session
+   */
+  fail(
+    message: string,
+    { code, fatal = true }: { code?: string; fatal?: boolean } = {}
+  ): void {
+    this.send({ type: "ERROR", message, code, fatal });
+  }
+
+  /**
+   * Simulate the user closing the popup. The SDK notices on its next poll,
+   * within 500ms.
+   */
+  closeWindow(): void {
+    const popup = this.popups.find((candidate) => candidate === this.source);
+
+    if (!popup) {
+      throw new InvalidArgumentError("Session isn't displayed in a popup", "handle");
+    }
+
+    popup.closed = true;
+  }
+
+  /**
+   * Post a message from the fake page, over the MessageChannel once the
+   * handshake is done, otherwise to the merchant window
+   */
+  send(message: QuentliMessage): void {
+    this.requireHandle();
+
+    if (this.port) {
+      this.port.postMessage(message);
+    } else {
+      this.postToWindow(message);
+    }
+  }
+
+  /**
+   * Dispatch a message event on the merchant window as if posted by the fake page
+   */
+  private postToWindow(message: QuentliMessage): void {
+    const event = new MessageEvent("message", { data: message, origin: this.origin });
+    // Browsers only accept real windows as `source` in the constructor
+    Object.defineProperty(event, "source", { value: this.source });
+    window.dispatchEvent(event);
+  }
+
+  private requireHandle(): QuentliSessionHandle {
+    if (!this.handle) {
+      throw new InvalidArgumentError("Call run() with a session handle first", "handle");
+    }
+
+    return this.handle;
+  }
+}
@@ -1,9 +1,14 @@
+import type { QuentliError } from "./errors";
+
 /**
  * Payment session credentials returned from the Quentli API
  */
 export interface QuentliAuthSession {
   accessToken: string;
   csrfToken: string;
+  /**
+   * ISO 8601 expiration date of the credentials
+   */
   expiresAt?: string;
 }
 
@@ -15,7 +20,17 @@ export type PaymentStatus = "COMPLETE" | "CANCELED";
 /**
  * Display mode for payment sessions
  */
-export type DisplayMode = "popup" | "iframe" | "redirect";
+export type DisplayMode = "popup" | "iframe" | "modal" | "redirect";
+
+/**
+ * Kind of session being displayed
+ */
+export type SessionType = "payment" | "setup";
+
+/**
+ * Display mode to use when the browser blocks a popup
+ */
+export type PopupFallback = "redirect" | "iframe" | "none";
 
 /**
  * Payment completion data
@@ -26,6 +41,32 @@ export interface PaymentCompletionData {
   [key: string]: unknown;
 }
 
+/**
+ * Payment failure data, e.g. a card decline or a failed 3-D Secure challenge.
+ * The user can usually retry in the hosted page.
+ */
+export interface PaymentFailureData {
+  code?: string;
+  message?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Data sent while a payment or payment method is being processed
+ */
+export interface PaymentProcessingData {
+  [key: string]: unknown;
+}
+
+/**
+ * Navigation between steps of the hosted page
+ */
+export interface StepChangeData {
+  step: string;
+  previousStep?: string;
+  [key: string]: unknown;
+}
+
 /**
  * Payment method data
  */
@@ -42,6 +83,211 @@ export interface PaymentMethodAddedData {
   [key: string]: unknown;
 }
 
+/**
+ * Fields shared by all webhook events
+ */
+export interface WebhookEventBase {
+  /**
+   * Unique event identifier; use it to skip duplicate deliveries
+   */
+  id: string;
+  /**
+   * Time the event was created, in seconds since the Unix epoch
+   */
+  created: number;
+}
+
+/**
+ * Webhook sent when a payment session completes; `data` matches what
+ * `onComplete` receives in the browser
+ */
+export interface PaymentCompletedWebhookEvent extends WebhookEventBase {
+  type: "PAYMENT_COMPLETED";
+  data: PaymentCompletionData;
+}
+
+/**
+ * Webhook sent when a setup session adds a payment method; `data` matches what
+ * `onPaymentMethodAdded` receives in the browser
+ */
+export interface PaymentMethodAddedWebhookEvent extends WebhookEventBase {
+  type: "PAYMENT_METHOD_ADDED";
+  data: PaymentMethodAddedData;
+}
+
+/**
+ * Verified webhook event returned by `verifyWebhook()`
+ */
+export type WebhookEvent =
+  | PaymentCompletedWebhookEvent
+  | PaymentMethodAddedWebhookEvent;
+
+/**
+ * Reason a session was canceled
+ *
+ * - `user_canceled`: the user canceled in the hosted page or dismissed the modal
+ * - `popup_closed`: the user closed the popup window
+ * - `destroyed`: the session was closed with `close()`, `cleanup()` or `destroy()`
+ * - `replaced_by_new_session`: another session took its popup, modal or container
+ * - `expired`: the session credentials expired
+ */
+export type CancelReason =
+  | "user_canceled"
+  | "popup_closed"
+  | "destroyed"
+  | "replaced_by_new_session"
+  | "expired";
+
+/**
+ * Outcome of a session started with checkout() or collect()
+ */
+export type SessionResult<TData> =
+  | { status: "complete"; data: TData }
+  | { status: "canceled"; reason: CancelReason };
+
+/**
+ * Outcome of a payment session started with checkout()
+ */
+export type PaymentSessionResult = SessionResult<PaymentCompletionData>;
+
+/**
+ * Outcome of a setup session started with collect()
+ */
+export type SetupSessionResult = SessionResult<PaymentMethodAddedData>;
+
+/**
+ * Lifecycle status of a displayed session
+ *
+ * - `opening`: popup, iframe or redirect is being opened
+ * - `loading`: the hosted page is loading; waiting for READY
+ * - `ready`: the hosted page posted READY
+ * - `initialized`: credentials were sent to the hosted page
+ * - `completed`, `canceled`, `errored`: the session has ended
+ */
+export type SessionStatus =
+  | "opening"
+  | "loading"
+  | "ready"
+  | "initialized"
+  | "completed"
+  | "canceled"
+  | "errored";
+
+/**
+ * Events emitted by a session handle, mapped to their payloads
+ */
+export interface SessionHandleEvents {
+  status: SessionStatus;
+  complete: PaymentCompletionData | PaymentMethodAddedData;
+  cancel: CancelReason;
+  error: Error;
+  failed: PaymentFailureData;
+  processing: PaymentProcessingData;
+  stepChange: StepChangeData;
+}
+
+/**
+ * Handle to a displayed session, returned by every display method
+ */
+export interface QuentliSessionHandle {
+  /**
+   * Unique identifier of the session within its Quentli instance
+   */
+  readonly id: string;
+  readonly sessionType: SessionType;
+  readonly displayMode: DisplayMode;
+  readonly status: SessionStatus;
+  /**
+   * Iframe hosting the session, when embedded
+   */
+  readonly element: HTMLIFrameElement | null;
+  /**
+   * Window of the hosted page: the popup, or the iframe's content window
+   */
+  readonly window: Window | null;
+  /**
+   * Close the popup or remove the iframe and release all resources.
+   * If the session hasn't ended, `onCancel` is called with `'destroyed'`.
+   */
+  close(): void;
+  /**
+   * Bring the popup window (or the iframe) into focus
+   */
+  focus(): void;
+  /**
+   * Restyle the open hosted page without reloading it. Sent with INIT if the
+   * handshake hasn't happened yet.
+   */
+  updateAppearance(appearance: QuentliAppearance): void;
+  /**
+   * Switch the language of the open hosted page without reloading it. Sent
+   * with INIT if the handshake hasn't happened yet.
+   */
+  setLocale(locale: QuentliLocale): void;
+  /**
+   * Subscribe to a session event. Returns a function that removes the listener.
+   */
+  on<K extends keyof SessionHandleEvents>(
+    event: K,
+    listener: (payload: SessionHandleEvents[K]) => void
+  ): () => void;
+}
+
+/**
+ * How a message from a hosted page reached the SDK: window.postMessage,
+ * the MessageChannel port, or the query string of a redirect return URL
+ */
+export type MessageTransport = "window" | "port" | "redirect";
+
+/**
+ * Fields shared by all Quentli instance events
+ */
+export interface QuentliEventBase {
+  sessionId: string;
+  sessionType: SessionType;
+}
+
+/**
+ * Events emitted by a Quentli instance, mapped to their payloads
+ */
+export interface QuentliEvents {
+  /**
+   * The hosted page posted READY
+   */
+  ready: QuentliEventBase;
+  /**
+   * Credentials were sent to the hosted page in an INIT message
+   */
+  init: QuentliEventBase;
+  complete: QuentliEventBase & {
+    data: PaymentCompletionData | PaymentMethodAddedData;
+  };
+  cancel: QuentliEventBase & { reason: CancelReason };
+  error: QuentliEventBase & { error: Error };
+  /**
+   * The browser refused to open the popup window
+   */
+  popupBlocked: QuentliEventBase;
+  failed: QuentliEventBase & { data: PaymentFailureData };
+  processing: QuentliEventBase & { data: PaymentProcessingData };
+  stepChange: QuentliEventBase & { data: StepChangeData };
+  /**
+   * The session credentials expired and could not be refreshed
+   */
+  expired: QuentliEventBase;
+  /**
+   * Any trusted message received from a hosted page
+   */
+  message: QuentliEventBase & {
+    type: QuentliMessageType;
+    message: QuentliMessage;
+    /**
+     * How the message reached the SDK
+     */
+    channel: MessageTransport;
+  };
+}
+
 /**
  * Configuration options for Quentli instance
  */
@@ -50,6 +296,139 @@ export interface QuentliConfig {
    * Optional: Enable debug logging
    */
   debug?: boolean;
+
+  /**
+   * Optional: Time in milliseconds to wait for the hosted page to post READY
+   * before failing with a HANDSHAKE_TIMEOUT error. Set to 0 to wait indefinitely.
+   * @default 30000
+   */
+  handshakeTimeoutMs?: number;
+
+  /**
+   * Optional: Number of times to reload an embedded iframe that timed out
+   * before failing
+   * @default 0
+   */
+  handshakeRetries?: number;
+
+  /**
+   * Optional: Origins allowed to exchange messages with the SDK.
+   * Defaults to the origin of the session `url`.
+   */
+  allowedOrigins?: string[];
+
+  /**
+   * Optional: Callback invoked when an incoming message is rejected
+   * because of its origin or source window
+   */
+  onSecurityViolation?: (violation: SecurityViolation) => void;
+
+  /**
+   * Optional: Language and formatting locale of the hosted pages, as a BCP 47
+   * tag such as `'es-MX'`, or `'auto'` to use the browser's language.
+   * Defaults to the hosted page's own default.
+   */
+  locale?: QuentliLocale;
+}
+
+/**
+ * BCP 47 language tag such as `'es-MX'` or `'en-US'`, or `'auto'` to use
+ * `navigator.language`
+ */
+export type QuentliLocale = "auto" | (string & {});
+
+/**
+ * Reason an incoming message was rejected
+ */
+export type SecurityViolationReason = "ORIGIN_NOT_ALLOWED" | "UNEXPECTED_SOURCE";
+
+/**
+ * Details about a rejected incoming message
+ */
+export interface SecurityViolation {
+  reason: SecurityViolationReason;
+  /**
+   * Origin the message was sent from
+   */
+  origin: string;
+  /**
+   * Type of the rejected message
+   */
+  messageType: string;
+  /**
+   * Error describing the rejection, with code `ORIGIN_REJECTED`
+   */
+  error: QuentliError;
+}
+
+/**
+ * Colors applied by the hosted page. Any CSS color value is accepted.
+ */
+export interface QuentliAppearanceColors {
+  /**
+   * Buttons, links and focus rings
+   */
+  primary?: string;
+  background?: string;
+  text?: string;
+  /**
+   * Error messages and invalid fields
+   */
+  danger?: string;
+  border?: string;
+}
+
+/**
+ * Visual customization of the hosted page
+ */
+export interface QuentliAppearance {
+  /**
+   * Color scheme; `'auto'` follows the user's system preference
+   * @default 'auto'
+   */
+  mode?: "light" | "dark" | "auto";
+  colors?: QuentliAppearanceColors;
+  /**
+   * CSS font-family, e.g. `'Inter, sans-serif'`
+   */
+  fontFamily?: string;
+  /**
+   * CSS border radius of inputs and buttons, e.g. `'8px'`
+   */
+  borderRadius?: string;
+  /**
+   * Spacing between form elements
+   * @default 'comfortable'
+   */
+  density?: "compact" | "comfortable";
+}
+
+/**
+ * Postal address, used for prefilling billing details
+ */
+export interface QuentliAddress {
+  line1?: string;
+  line2?: string;
+  city?: string;
+  /**
+   * State, province or region
+   */
+  state?: string;
+  postalCode?: string;
+  /**
+   * Two-letter ISO 3166-1 country code, e.g. `'MX'`
+   */
+  country?: string;
+}
+
+/**
+ * Customer details the hosted page fills in for the user, who can still edit them
+ */
+export interface QuentliPrefill {
+  name?: string;
+  email?: string;
+  phone?: string;
+  billingAddress?: QuentliAddress;
 }
 
 /**
@@ -66,6 +445,24 @@ interface BasePaymentSessionOptions {
    */
   session: QuentliAuthSession;
 
+  /**
+   * Optional: Visual customization of the hosted page. Change it while the
+   * session is open with `updateAppearance()` on the session handle.
+   */
+  appearance?: QuentliAppearance;
+
+  /**
+   * Optional: Locale of the hosted page, overriding `QuentliConfig.locale`.
+   * Change it while the session is open with `setLocale()` on the session handle.
+   */
+  locale?: QuentliLocale;
+
+  /**
+   * Optional: Customer details to fill in on the hosted page. Sent over the
+   * private MessageChannel after the handshake, never in the URL.
+   */
+  prefill?: QuentliPrefill;
+
   /**
    * Callback invoked when payment is completed successfully
    */
@@ -74,12 +471,45 @@ interface BasePaymentSessionOptions {
   /**
    * Callback invoked when payment is canceled by the user
    */
-  onCancel?: () => void;
+  onCancel?: (reason: CancelReason) => void;
 
   /**
    * Callback invoked when an error occurs
    */
   onError?: (error: Error) => void;
+
+  /**
+   * Callback invoked when the hosted page has loaded and is ready
+   */
+  onReady?: () => void;
+
+  /**
+   * Callback invoked when an attempt fails, e.g. a declined card.
+   * The session stays open so the user can retry.
+   */
+  onFailed?: (data: PaymentFailureData) => void;
+
+  /**
+   * Callback invoked while the hosted page is processing
+   */
+  onProcessing?: (data: PaymentProcessingData) => void;
+
+  /**
+   * Callback invoked when the user moves to another step of the hosted page
+   */
+  onStepChange?: (data: StepChangeData) => void;
+
+  /**
+   * Callback invoked when the session credentials expire (see
+   * `QuentliAuthSession.expiresAt`). The session is closed afterwards.
+   */
+  onExpired?: () => void;
+
+  /**
+   * Optional: Fetch fresh credentials shortly before the current ones expire.
+   * The new tokens are sent to the open hosted page without reloading it.
+   */
+  refreshSession?: () => Promise<QuentliAuthSession>;
 }
 
 /**
@@ -100,6 +530,16 @@ export interface DisplayPopupOptions extends BasePaymentSessionOptions {
    * Optional: Custom window name
    */
   windowName?: string;
+  /**
+   * Optional: Display mode to use when the popup is blocked. The returned
+   * handle's `displayMode` reports the mode actually used.
+   * @default 'none'
+   */
+  fallback?: PopupFallback;
+  /**
+   * Target element for the iframe when `fallback` is `'iframe'`
+   */
+  fallbackTarget?: HTMLElement;
 }
 
 /**
@@ -129,6 +569,58 @@ export interface DisplayEmbeddedOptions extends BasePaymentSessionOptions {
    * @default 'payment'
    */
   allow?: string;
+  /**
+   * Optional: Resize the iframe to the content height reported by the hosted page
+   * @default false
+   */
+  autoResize?: boolean;
+  /**
+   * Optional: Minimum iframe height in pixels when `autoResize` is enabled
+   */
+  minHeight?: number;
+  /**
+   * Optional: Maximum iframe height in pixels when `autoResize` is enabled
+   */
+  maxHeight?: number;
+  /**
+   * Optional: Callback invoked with the new iframe height in pixels after an auto-resize
+   */
+  onResize?: (height: number) => void;
+}
+
+/**
+ * Options for displayModal method
+ */
+export interface DisplayModalOptions extends BasePaymentSessionOptions {
+  /**
+   * Dialog width
+   * @default '500px'
+   */
+  width?: string;
+  /**
+   * Dialog height
+   * @default '700px'
+   */
+  height?: string;
+  /**
+   * Optional: Additional dialog CSS class
+   */
+  className?: string;
+  /**
+   * Optional: iframe allow attribute
+   * @default 'payment'
+   */
+  allow?: string;
+  /**
+   * Optional: Whether clicking the backdrop cancels the session
+   * @default true
+   */
+  closeOnBackdropClick?: boolean;
+  /**
+   * Optional: Accessible name of the dialog
+   * @default 'Checkout'
+   */
+  ariaLabel?: string;
 }
 
 /**
@@ -139,6 +631,22 @@ export interface DisplayPageOptions {
    * Payment session URL from Quentli API
    */
   url: string;
+  /**
+   * Optional: URL the hosted page returns to after a completed payment
+   */
+  successUrl?: string;
+  /**
+   * Optional: URL the hosted page returns to when the payment is canceled
+   */
+  cancelUrl?: string;
+  /**
+   * Optional: Visual customization of the hosted page, passed in the URL
+   */
+  appearance?: QuentliAppearance;
+  /**
+   * Optional: Locale of the hosted page, overriding `QuentliConfig.locale`
+   */
+  locale?: QuentliLocale;
 }
 
 /**
@@ -155,6 +663,24 @@ interface BaseSetupSessionOptions {
    */
   session: QuentliAuthSession;
 
+  /**
+   * Optional: Visual customization of the hosted page. Change it while the
+   * session is open with `updateAppearance()` on the session handle.
+   */
+  appearance?: QuentliAppearance;
+
+  /**
+   * Optional: Locale of the hosted page, overriding `QuentliConfig.locale`.
+   * Change it while the session is open with `setLocale()` on the session handle.
+   */
+  locale?: QuentliLocale;
+
+  /**
+   * Optional: Customer details to fill in on the hosted page. Sent over the
+   * private MessageChannel after the handshake, never in the URL.
+   */
+  prefill?: QuentliPrefill;
+
   /**
    * Callback invoked when payment method is added successfully
    */
@@ -163,12 +689,45 @@ interface BaseSetupSessionOptions {
   /**
    * Callback invoked when setup is canceled by the user
    */
-  onCancel?: () => void;
+  onCancel?: (reason: CancelReason) => void;
 
   /**
    * Callback invoked when an error occurs
    */
   onError?: (error: Error) => void;
+
+  /**
+   * Callback invoked when the hosted page has loaded and is ready
+   */
+  onReady?: () => void;
+
+  /**
+   * Callback invoked when an attempt fails, e.g. a declined card.
+   * The session stays open so the user can retry.
+   */
+  onFailed?: (data: PaymentFailureData) => void;
+
+  /**
+   * Callback invoked while the hosted page is processing
+   */
+  onProcessing?: (data: PaymentProcessingData) => void;
+
+  /**
+   * Callback invoked when the user moves to another step of the hosted page
+   */
+  onStepChange?: (data: StepChangeData) => void;
+
+  /**
+   * Callback invoked when the session credentials expire (see
+   * `QuentliAuthSession.expiresAt`). The session is closed afterwards.
+   */
+  onExpired?: () => void;
+
+  /**
+   * Optional: Fetch fresh credentials shortly before the current ones expire.
+   * The new tokens are sent to the open hosted page without reloading it.
+   */
+  refreshSession?: () => Promise<QuentliAuthSession>;
 }
 
 /**
@@ -189,6 +748,16 @@ export interface SetupSessionDisplayPopupOptions extends BaseSetupSessionOptions
    * Optional: Custom window name
    */
   windowName?: string;
+  /**
+   * Optional: Display mode to use when the popup is blocked. The returned
+   * handle's `displayMode` reports the mode actually used.
+   * @default 'none'
+   */
+  fallback?: PopupFallback;
+  /**
+   * Target element for the iframe when `fallback` is `'iframe'`
+   */
+  fallbackTarget?: HTMLElement;
 }
 
 /**
@@ -218,6 +787,58 @@ export interface SetupSessionDisplayEmbeddedOptions extends BaseSetupSessionOpti
    * @default 'payment'
    */
   allow?: string;
+  /**
+   * Optional: Resize the iframe to the content height reported by the hosted page
+   * @default false
+   */
+  autoResize?: boolean;
+  /**
+   * Optional: Minimum iframe height in pixels when `autoResize` is enabled
+   */
+  minHeight?: number;
+  /**
+   * Optional: Maximum iframe height in pixels when `autoResize` is enabled
+   */
+  maxHeight?: number;
+  /**
+   * Optional: Callback invoked with the new iframe height in pixels after an auto-resize
+   */
+  onResize?: (height: number) => void;
+}
+
+/**
+ * Options for setup session displayModal method
+ */
+export interface SetupSessionDisplayModalOptions extends BaseSetupSessionOptions {
+  /**
+   * Dialog width
+   * @default '500px'
+   */
+  width?: string;
+  /**
+   * Dialog height
+   * @default '700px'
+   */
+  height?: string;
+  /**
+   * Optional: Additional dialog CSS class
+   */
+  className?: string;
+  /**
+   * Optional: iframe allow attribute
+   * @default 'payment'
+   */
+  allow?: string;
+  /**
+   * Optional: Whether clicking the backdrop cancels the session
+   * @default true
+   */
+  closeOnBackdropClick?: boolean;
+  /**
+   * Optional: Accessible name of the dialog
+   * @default 'Add payment method'
+   */
+  ariaLabel?: string;
 }
 
 /**
@@ -228,12 +849,80 @@ export interface SetupSessionDisplayPageOptions {
    * Setup session URL from Quentli API
    */
   url: string;
+  /**
+   * Optional: URL the hosted page returns to after a payment method is added
+   */
+  successUrl?: string;
+  /**
+   * Optional: URL the hosted page returns to when the setup is canceled
+   */
+  cancelUrl?: string;
+  /**
+   * Optional: Visual customization of the hosted page, passed in the URL
+   */
+  appearance?: QuentliAppearance;
+  /**
+   * Optional: Locale of the hosted page, overriding `QuentliConfig.locale`
+   */
+  locale?: QuentliLocale;
 }
 
+/**
+ * Options for handleRedirectReturn method
+ */
+export interface HandleRedirectReturnOptions {
+  /**
+   * URL to parse
+   * @default window.location.href
+   */
+  url?: string;
+  /**
+   * Callback invoked when the returning payment session was completed
+   */
+  onComplete?: (data: PaymentCompletionData) => void;
+  /**
+   * Callback invoked when the returning setup session added a payment method
+   */
+  onPaymentMethodAdded?: (data: PaymentMethodAddedData) => void;
+  /**
+   * Callback invoked when the returning session was canceled
+   */
+  onCancel?: (reason: CancelReason) => void;
+}
+
+/**
+ * Result of a payment or setup session parsed from a redirect return URL
+ */
+export type RedirectReturnResult =
+  | { sessionType: "payment"; result: PaymentSessionResult }
+  | { sessionType: "setup"; result: SetupSessionResult };
+
+/**
+ * Optional features the SDK and hosted page can negotiate in the handshake
+ *
+ * - `resize`: the page reports its content height with RESIZE
+ * - `theme`: the page applies an appearance sent by the SDK
+ * - `locale`: the page switches language on request
+ * - `prefill`: the page pre-populates customer fields
+ */
+export type QuentliCapability = "resize" | "theme" | "locale" | "prefill";
+
 /**
  * Internal message types for postMessage communication
  */
-export type QuentliMessageType = "READY" | "INIT" | "PAYMENT_COMPLETED" | "PAYMENT_METHOD_ADDED";
+export type QuentliMessageType =
+  | "READY"
+  | "INIT"
+  | "SET_APPEARANCE"
+  | "SET_LOCALE"
+  | "PREFILL"
+  | "PAYMENT_COMPLETED"
+  | "PAYMENT_METHOD_ADDED"
+  | "PAYMENT_FAILED"
+  | "PAYMENT_PROCESSING"
+  | "STEP_CHANGED"
+  | "ERROR"
+  | "RESIZE";
 
 /**
  * Message structure for postMessage communication
@@ -244,5 +933,54 @@ export interface QuentliMessage {
   accessToken?: string;
   csrfToken?: string;
   paymentMethod?: PaymentMethodData;
+  /**
+   * Content height in pixels, sent with RESIZE
+   */
+  height?: number;
+  /**
+   * Machine-readable reason, sent with PAYMENT_FAILED and ERROR
+   */
+  code?: string;
+  /**
+   * Human-readable description, sent with PAYMENT_FAILED and ERROR
+   */
+  message?: string;
+  /**
+   * Whether the hosted page cannot recover from an ERROR
+   */
+  fatal?: boolean;
+  /**
+   * Current and previous step, sent with STEP_CHANGED
+   */
+  step?: string;
+  previousStep?: string;
+  /**
+   * Protocol version of the sender, sent with READY and INIT
+   */
+  protocolVersion?: number;
+  /**
+   * Hosted page version, sent with READY
+   */
+  version?: string;
+  /**
+   * SDK version, sent with INIT
+   */
+  sdkVersion?: string;
+  /**
+   * Features supported by the sender, sent with READY and INIT
+   */
+  capabilities?: QuentliCapability[];
+  /**
+   * Visual customization, sent with INIT and SET_APPEARANCE
+   */
+  appearance?: QuentliAppearance;
+  /**
+   * BCP 47 language tag, sent with INIT and SET_LOCALE
+   */
+  locale?: string;
+  /**
+   * Customer details, sent with PREFILL
+   */
+  prefill?: QuentliPrefill;
   [key: string]: unknown;
 }
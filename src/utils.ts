@@ -1,3 +1,6 @@
+import { InvalidArgumentError } from './errors';
+import type { SessionType } from './types';
+
 /**
  * Utility functions for window and iframe management
  */
@@ -33,6 +36,81 @@ export function generateWindowFeatures(
   ].join(',');
 }
 
+/**
+ * Normalize a URL or origin string to its origin (e.g. `https://pay.quentli.com`)
+ */
+export function getOrigin(url: string): string {
+  return new URL(url).origin;
+}
+
+/**
+ * Validate the allowed origins: an array of absolute http(s) URLs or origins
+ * @throws {InvalidArgumentError} If allowedOrigins is invalid
+ */
+export function validateAllowedOrigins(allowedOrigins: unknown): void {
+  if (allowedOrigins === undefined) {
+    return;
+  }
+
+  if (!Array.isArray(allowedOrigins)) {
+    throw new InvalidArgumentError(
+      'allowedOrigins must be an array of origins',
+      'allowedOrigins'
+    );
+  }
+
+  for (const origin of allowedOrigins) {
+    let valid = false;
+    try {
+      valid = typeof origin === 'string' && getOrigin(origin) !== 'null';
+    } catch {
+      valid = false;
+    }
+
+    if (!valid) {
+      throw new InvalidArgumentError(
+        `allowedOrigins contains an invalid origin: ${String(origin)}. ` +
+          "Use an absolute URL such as 'https://pay.quentli.com'",
+        'allowedOrigins'
+      );
+    }
+  }
+}
+
+/**
+ * Validate the handshake options: a non-negative timeout in milliseconds and
+ * a non-negative whole number of retries
+ * @throws {InvalidArgumentError} If handshakeTimeoutMs or handshakeRetries is invalid
+ */
+export function validateHandshakeOptions(
+  handshakeTimeoutMs: unknown,
+  handshakeRetries: unknown
+): void {
+  if (
+    handshakeTimeoutMs !== undefined &&
+    (typeof handshakeTimeoutMs !== 'number' ||
+      !Number.isFinite(handshakeTimeoutMs) ||
+      handshakeTimeoutMs < 0)
+  ) {
+    throw new InvalidArgumentError(
+      'handshakeTimeoutMs must be a non-negative number of milliseconds, or 0 to wait indefinitely',
+      'handshakeTimeoutMs'
+    );
+  }
+
+  if (
+    handshakeRetries !== undefined &&
+    (typeof handshakeRetries !== 'number' ||
+      !Number.isInteger(handshakeRetries) ||
+      handshakeRetries < 0)
+  ) {
+    throw new InvalidArgumentError(
+      'handshakeRetries must be a non-negative integer',
+      'handshakeRetries'
+    );
+  }
+}
+
 /**
  * Debug logger
  */
@@ -58,27 +136,109 @@ export class Logger {
   }
 }
 
+/**
+ * Minimal typed event emitter
+ */
+export class Emitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<(payload: any) => void>>();
+
+  constructor(private logger?: Logger) {}
+
+  /**
+   * Subscribe to an event. Returns a function that removes the listener.
+   */
+  on<K extends keyof Events>(
+    event: K,
+    listener: (payload: Events[K]) => void
+  ): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener added with on()
+   */
+  off<K extends keyof Events>(
+    event: K,
+    listener: (payload: Events[K]) => void
+  ): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Invoke all listeners of an event. Errors thrown by listeners are logged
+   * so one faulty subscriber cannot break the others.
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.logger?.error(`Error in ${String(event)} listener:`, error);
+      }
+    }
+  }
+
+  /**
+   * Remove all listeners
+   */
+  clear(): void {
+    this.listeners.clear();
+  }
+}
+
 /**
  * Validation utilities for runtime argument checking
  */
 
+/**
+ * Validate that display options are provided as an object
+ */
+export function validateOptions(options: unknown, sessionType?: SessionType): void {
+  if (!options || typeof options !== 'object') {
+    throw new InvalidArgumentError(
+      'options is required and must be an object',
+      'options',
+      sessionType
+    );
+  }
+}
+
 /**
  * Validate that a URL string is provided and valid
  */
-export function validateUrl(url: unknown, paramName: string = 'url'): string {
+export function validateUrl(
+  url: unknown,
+  paramName: string = 'url',
+  sessionType?: SessionType
+): string {
   if (!url || typeof url !== 'string') {
-    throw new Error(`${paramName} is required and must be a string`);
+    throw new InvalidArgumentError(
+      `${paramName} is required and must be a string`,
+      paramName,
+      sessionType
+    );
   }
   
   if (url.trim().length === 0) {
-    throw new Error(`${paramName} cannot be empty`);
+    throw new InvalidArgumentError(`${paramName} cannot be empty`, paramName, sessionType);
   }
 
   // Validate URL format
   try {
     new URL(url);
   } catch {
-    throw new Error(`${paramName} must be a valid URL`);
+    throw new InvalidArgumentError(`${paramName} must be a valid URL`, paramName, sessionType);
   }
 
   return url;
@@ -87,40 +247,300 @@ export function validateUrl(url: unknown, paramName: string = 'url'): string {
 /**
  * Validate that session credentials are provided
  */
-export function validateSession(session: unknown): void {
+export function validateSession(session: unknown, sessionType?: SessionType): void {
   if (!session || typeof session !== 'object') {
-    throw new Error('session is required and must be an object');
+    throw new InvalidArgumentError(
+      'session is required and must be an object',
+      'session',
+      sessionType
+    );
   }
 
   const sess = session as Record<string, unknown>;
 
-  if (!sess.accessToken || typeof sess.accessToken !== 'string') {
-    throw new Error('session.accessToken is required and must be a string');
+  for (const field of ['accessToken', 'csrfToken'] as const) {
+    const value = sess[field];
+
+    if (!value || typeof value !== 'string') {
+      throw new InvalidArgumentError(
+        `session.${field} is required and must be a string`,
+        `session.${field}`,
+        sessionType
+      );
+    }
+
+    if (value.trim().length === 0) {
+      throw new InvalidArgumentError(
+        `session.${field} cannot be empty`,
+        `session.${field}`,
+        sessionType
+      );
+    }
+  }
+
+  if (
+    sess.expiresAt !== undefined &&
+    (typeof sess.expiresAt !== 'string' || Number.isNaN(Date.parse(sess.expiresAt)))
+  ) {
+    throw new InvalidArgumentError(
+      'session.expiresAt must be a valid date string',
+      'session.expiresAt',
+      sessionType
+    );
+  }
+}
+
+/**
+ * Fields of a prefilled billing address
+ */
+const ADDRESS_FIELDS = ['line1', 'line2', 'city', 'state', 'postalCode', 'country'];
+
+/**
+ * Validate customer prefill data
+ * @throws {InvalidArgumentError} If prefill is invalid
+ */
+export function validatePrefill(prefill: unknown, sessionType?: SessionType): void {
+  if (prefill === undefined) {
+    return;
+  }
+
+  if (!prefill || typeof prefill !== 'object') {
+    throw new InvalidArgumentError(
+      'prefill must be an object',
+      'prefill',
+      sessionType
+    );
+  }
+
+  const data = prefill as Record<string, unknown>;
+
+  for (const field of ['name', 'email', 'phone'] as const) {
+    if (data[field] !== undefined && typeof data[field] !== 'string') {
+      throw new InvalidArgumentError(
+        `prefill.${field} must be a string`,
+        `prefill.${field}`,
+        sessionType
+      );
+    }
   }
 
-  if (sess.accessToken.trim().length === 0) {
-    throw new Error('session.accessToken cannot be empty');
+  if (typeof data.email === 'string' && !/^[^\s@]+@[^\s@]+$/.test(data.email)) {
+    throw new InvalidArgumentError(
+      'prefill.email must be a valid email address',
+      'prefill.email',
+      sessionType
+    );
   }
 
-  if (!sess.csrfToken || typeof sess.csrfToken !== 'string') {
-    throw new Error('session.csrfToken is required and must be a string');
+  if (data.billingAddress === undefined) {
+    return;
   }
 
-  if (sess.csrfToken.trim().length === 0) {
-    throw new Error('session.csrfToken cannot be empty');
+  if (!data.billingAddress || typeof data.billingAddress !== 'object') {
+    throw new InvalidArgumentError(
+      'prefill.billingAddress must be an object',
+      'prefill.billingAddress',
+      sessionType
+    );
+  }
+
+  const address = data.billingAddress as Record<string, unknown>;
+
+  for (const [name, value] of Object.entries(address)) {
+    if (!ADDRESS_FIELDS.includes(name)) {
+      throw new InvalidArgumentError(
+        `prefill.billingAddress.${name} is not a supported address field. ` +
+          `Use ${ADDRESS_FIELDS.join(', ')}`,
+        `prefill.billingAddress.${name}`,
+        sessionType
+      );
+    }
+
+    if (value !== undefined && typeof value !== 'string') {
+      throw new InvalidArgumentError(
+        `prefill.billingAddress.${name} must be a string`,
+        `prefill.billingAddress.${name}`,
+        sessionType
+      );
+    }
+  }
+
+  if (typeof address.country === 'string' && !/^[A-Za-z]{2}$/.test(address.country)) {
+    throw new InvalidArgumentError(
+      'prefill.billingAddress.country must be a two-letter ISO country code',
+      'prefill.billingAddress.country',
+      sessionType
+    );
   }
 }
 
+/**
+ * Validate an appearance object
+ * @throws {InvalidArgumentError} If appearance is invalid
+ */
+export function validateAppearance(appearance: unknown, sessionType?: SessionType): void {
+  if (appearance === undefined) {
+    return;
+  }
+
+  if (!appearance || typeof appearance !== 'object') {
+    throw new InvalidArgumentError(
+      'appearance must be an object',
+      'appearance',
+      sessionType
+    );
+  }
+
+  const app = appearance as Record<string, unknown>;
+
+  if (app.mode !== undefined && !['light', 'dark', 'auto'].includes(app.mode as string)) {
+    throw new InvalidArgumentError(
+      "appearance.mode must be 'light', 'dark' or 'auto'",
+      'appearance.mode',
+      sessionType
+    );
+  }
+
+  if (app.density !== undefined && !['compact', 'comfortable'].includes(app.density as string)) {
+    throw new InvalidArgumentError(
+      "appearance.density must be 'compact' or 'comfortable'",
+      'appearance.density',
+      sessionType
+    );
+  }
+
+  for (const field of ['fontFamily', 'borderRadius'] as const) {
+    if (app[field] !== undefined && typeof app[field] !== 'string') {
+      throw new InvalidArgumentError(
+        `appearance.${field} must be a string`,
+        `appearance.${field}`,
+        sessionType
+      );
+    }
+  }
+
+  if (app.colors === undefined) {
+    return;
+  }
+
+  if (!app.colors || typeof app.colors !== 'object') {
+    throw new InvalidArgumentError(
+      'appearance.colors must be an object',
+      'appearance.colors',
+      sessionType
+    );
+  }
+
+  for (const [name, value] of Object.entries(app.colors)) {
+    if (value !== undefined && typeof value !== 'string') {
+      throw new InvalidArgumentError(
+        `appearance.colors.${name} must be a string`,
+        `appearance.colors.${name}`,
+        sessionType
+      );
+    }
+  }
+}
+
+/**
+ * Validate a locale: 'auto' or a well-formed BCP 47 language tag
+ * @throws {InvalidArgumentError} If locale is invalid
+ */
+export function validateLocale(locale: unknown, sessionType?: SessionType): void {
+  if (locale === undefined || locale === 'auto') {
+    return;
+  }
+
+  let valid = typeof locale === 'string' && locale.length > 0;
+  if (valid) {
+    try {
+      Intl.getCanonicalLocales(locale as string);
+    } catch {
+      valid = false;
+    }
+  }
+
+  if (!valid) {
+    throw new InvalidArgumentError(
+      "locale must be 'auto' or a BCP 47 language tag such as 'es-MX'",
+      'locale',
+      sessionType
+    );
+  }
+}
+
+/**
+ * Resolve 'auto' to the browser's language and canonicalize other locales,
+ * e.g. 'es-mx' to 'es-MX'. Returns undefined to leave the choice to the hosted page.
+ */
+export function resolveLocale(locale: string | undefined): string | undefined {
+  const resolved =
+    locale === 'auto'
+      ? typeof navigator !== 'undefined' ? navigator.language : undefined
+      : locale;
+
+  if (!resolved) {
+    return undefined;
+  }
+
+  try {
+    return Intl.getCanonicalLocales(resolved)[0];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Milliseconds until session credentials expire, or null if they don't expire
+ */
+export function getTimeUntilExpiry(session: { expiresAt?: string }): number | null {
+  if (!session.expiresAt) {
+    return null;
+  }
+
+  return Date.parse(session.expiresAt) - Date.now();
+}
+
 /**
  * Validate that target element is provided and is an HTMLElement
  */
-export function validateTarget(target: unknown): void {
+export function validateTarget(
+  target: unknown,
+  paramName: string = 'target',
+  sessionType?: SessionType
+): void {
   if (!target) {
-    throw new Error('target is required');
+    throw new InvalidArgumentError(`${paramName} is required`, paramName, sessionType);
   }
 
   if (typeof HTMLElement !== 'undefined' && !(target instanceof HTMLElement)) {
-    throw new Error('target must be an HTMLElement');
+    throw new InvalidArgumentError(
+      `${paramName} must be an HTMLElement`,
+      paramName,
+      sessionType
+    );
   }
 }
 
+/**
+ * Validate the popup fallback option and its iframe target
+ */
+export function validateFallback(
+  fallback: unknown,
+  fallbackTarget: unknown,
+  sessionType?: SessionType
+): void {
+  if (fallback === undefined || fallback === 'none' || fallback === 'redirect') {
+    return;
+  }
+
+  if (fallback !== 'iframe') {
+    throw new InvalidArgumentError(
+      "fallback must be 'redirect', 'iframe' or 'none'",
+      'fallback',
+      sessionType
+    );
+  }
+
+  validateTarget(fallbackTarget, 'fallbackTarget', sessionType);
+}
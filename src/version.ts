@@ -0,0 +1,26 @@
+import type { QuentliCapability } from "./types";
+
+// Replaced with the package version at build time
+declare const __SDK_VERSION__: string;
+
+/**
+ * Version of this SDK
+ */
+export const SDK_VERSION: string =
+  typeof __SDK_VERSION__ === "string" ? __SDK_VERSION__ : "development";
+
+/**
+ * Version of the postMessage protocol spoken by this SDK. Bumped when a
+ * change would break hosted pages or SDKs built for an earlier version.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Capabilities this SDK supports, advertised in INIT
+ */
+export const SDK_CAPABILITIES: readonly QuentliCapability[] = [
+  "resize",
+  "theme",
+  "locale",
+  "prefill",
+];
@@ -0,0 +1,564 @@
+/**
+ * @quentli/js/vue - Vue 3 bindings for Quentli
+ *
+ * Provides composables that own the Quentli instance and track session state
+ * in refs, and embedded components that open their session on mount and close
+ * it on unmount.
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * import { QuentliEmbeddedCheckout } from '@quentli/js/vue';
+ *
+ * const props = defineProps<{ checkout: { url: string; session: QuentliSession } }>();
+ * </script>
+ *
+ * <template>
+ *   <QuentliEmbeddedCheckout
+ *     :url="props.checkout.url"
+ *     :session="props.checkout.session"
+ *     @complete="(data) => console.log('Payment completed:', data)"
+ *   />
+ * </template>
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import {
+  defineComponent,
+  getCurrentInstance,
+  getCurrentScope,
+  h,
+  inject,
+  onBeforeUnmount,
+  onMounted,
+  onScopeDispose,
+  provide,
+  ref,
+  shallowRef,
+  watch,
+} from "vue";
+import type {
+  ComponentInternalInstance,
+  InjectionKey,
+  PropType,
+  Ref,
+  ShallowRef,
+} from "vue";
+import { Quentli } from "./Quentli";
+import { InvalidStateError, isTerminalError } from "./errors";
+import type {
+  CancelReason,
+  DisplayEmbeddedOptions,
+  DisplayModalOptions,
+  DisplayPopupOptions,
+  PaymentCompletionData,
+  PaymentFailureData,
+  PaymentMethodAddedData,
+  PaymentProcessingData,
+  PaymentSessionResult,
+  QuentliAppearance,
+  QuentliAuthSession,
+  QuentliConfig,
+  QuentliLocale,
+  QuentliPrefill,
+  QuentliSessionHandle,
+  SessionStatus,
+  SetupSessionDisplayModalOptions,
+  SetupSessionDisplayPopupOptions,
+  SetupSessionResult,
+  StepChangeData,
+} from "./types";
+
+const QUENTLI_KEY: InjectionKey<Quentli> = Symbol("quentli");
+
+/**
+ * Instances created by useQuentli() for the component that called it. inject()
+ * only sees ancestors, so later calls in the same component look here.
+ */
+const componentInstances = new WeakMap<ComponentInternalInstance, Quentli>();
+
+/**
+ * Get the Quentli instance shared with the current component
+ *
+ * Returns the instance created by an earlier `useQuentli()` call in the same
+ * component or provided by the nearest ancestor. Otherwise creates one,
+ * provides it to descendants and destroys it when the current component
+ * unmounts (or the current effect scope is disposed); `config` only applies then.
+ *
+ * @throws {InvalidStateError} If called outside a component's setup() or an effect scope
+ */
+export function useQuentli(config?: QuentliConfig): Quentli {
+  const component = getCurrentInstance();
+  if (component) {
+    const shared = componentInstances.get(component) ?? inject(QUENTLI_KEY, null);
+    if (shared) {
+      return shared;
+    }
+  } else if (!getCurrentScope()) {
+    // Nothing would destroy the instance, leaving its listeners behind
+    throw new InvalidStateError(
+      "useQuentli must be called in a component's setup() or an effect scope"
+    );
+  }
+
+  const quentli = new Quentli(config);
+  if (component) {
+    componentInstances.set(component, quentli);
+    provide(QUENTLI_KEY, quentli);
+  }
+  onScopeDispose(() => quentli.destroy());
+
+  return quentli;
+}
+
+/**
+ * Status tracked by the session composables; `'idle'` until `open()` is called
+ */
+export type SessionRefStatus = SessionStatus | "idle";
+
+/**
+ * Options accepted by `usePaymentSession().open()`
+ */
+export type PaymentSessionOpenOptions =
+  | ({ displayMode?: "popup" } & DisplayPopupOptions)
+  | ({ displayMode: "modal" } & DisplayModalOptions);
+
+/**
+ * Options accepted by `useSetupSession().open()`
+ */
+export type SetupSessionOpenOptions =
+  | ({ displayMode?: "popup" } & SetupSessionDisplayPopupOptions)
+  | ({ displayMode: "modal" } & SetupSessionDisplayModalOptions);
+
+/**
+ * Refs and controls returned by the session composables
+ */
+export interface SessionRefs<TOptions, TResult> {
+  /**
+   * Open the session in a popup (default) or modal. Errors are reported through `error`.
+   */
+  open: (options: TOptions) => Promise<void>;
+  /**
+   * Handle of the most recently opened session
+   */
+  session: Readonly<ShallowRef<QuentliSessionHandle | null>>;
+  /**
+   * Lifecycle status of the most recently opened session
+   */
+  status: Readonly<Ref<SessionRefStatus>>;
+  /**
+   * Outcome of the most recently opened session, once it has ended
+   */
+  result: Readonly<ShallowRef<TResult | null>>;
+  /**
+   * Error that ended the most recently opened session or prevented it from opening
+   */
+  error: Readonly<ShallowRef<Error | null>>;
+}
+
+/**
+ * Track the state of the latest session opened by a composable and close it
+ * when the current scope is disposed
+ */
+function useSessionRefs<TResult>() {
+  const session = shallowRef<QuentliSessionHandle | null>(null);
+  const status = ref<SessionRefStatus>("idle");
+  const result = shallowRef<TResult | null>(null);
+  const error = shallowRef<Error | null>(null);
+
+  onScopeDispose(() => {
+    session.value?.close();
+  });
+
+  const start = () => {
+    session.value?.close();
+    session.value = null;
+    status.value = "opening";
+    result.value = null;
+    error.value = null;
+  };
+
+  const attach = (handle: QuentliSessionHandle) => {
+    session.value = handle;
+    status.value = handle.status;
+    handle.on("status", (value) => {
+      status.value = value;
+    });
+  };
+
+  const fail = (reason: unknown) => {
+    if (!isTerminalError(reason)) {
+      return;
+    }
+
+    error.value = reason instanceof Error ? reason : new Error(String(reason));
+    status.value = "errored";
+  };
+
+  return { session, status, result, error, start, attach, fail };
+}
+
+/**
+ * Open payment sessions in a popup or modal and track their outcome in refs
+ *
+ * @example
+ * ```typescript
+ * const { open, status, result, error } = usePaymentSession();
+ *
+ * await open({ url, session });
+ * ```
+ */
+export function usePaymentSession(): SessionRefs<
+  PaymentSessionOpenOptions,
+  PaymentSessionResult
+> {
+  const quentli = useQuentli();
+  const { start, attach, fail, ...refs } = useSessionRefs<PaymentSessionResult>();
+
+  const track = <T extends DisplayPopupOptions | DisplayModalOptions>(
+    options: T
+  ): T => ({
+    ...options,
+    onComplete: (data: PaymentCompletionData) => {
+      refs.result.value = { status: "complete", data };
+      options.onComplete?.(data);
+    },
+    onCancel: (reason: CancelReason) => {
+      refs.result.value = { status: "canceled", reason };
+      options.onCancel?.(reason);
+    },
+    onError: (error: Error) => {
+      fail(error);
+      options.onError?.(error);
+    },
+  });
+
+  const open = async (options: PaymentSessionOpenOptions) => {
+    start();
+
+    try {
+      attach(
+        options.displayMode === "modal"
+          ? await quentli.paymentSessions.displayModal(track(options))
+          : await quentli.paymentSessions.displayPopup(track(options))
+      );
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  return { open, ...refs };
+}
+
+/**
+ * Open setup sessions in a popup or modal and track their outcome in refs
+ */
+export function useSetupSession(): SessionRefs<
+  SetupSessionOpenOptions,
+  SetupSessionResult
+> {
+  const quentli = useQuentli();
+  const { start, attach, fail, ...refs } = useSessionRefs<SetupSessionResult>();
+
+  const track = <
+    T extends SetupSessionDisplayPopupOptions | SetupSessionDisplayModalOptions,
+  >(
+    options: T
+  ): T => ({
+    ...options,
+    onPaymentMethodAdded: (data: PaymentMethodAddedData) => {
+      refs.result.value = { status: "complete", data };
+      options.onPaymentMethodAdded?.(data);
+    },
+    onCancel: (reason: CancelReason) => {
+      refs.result.value = { status: "canceled", reason };
+      options.onCancel?.(reason);
+    },
+    onError: (error: Error) => {
+      fail(error);
+      options.onError?.(error);
+    },
+  });
+
+  const open = async (options: SetupSessionOpenOptions) => {
+    start();
+
+    try {
+      attach(
+        options.displayMode === "modal"
+          ? await quentli.setupSessions.displayModal(track(options))
+          : await quentli.setupSessions.displayPopup(track(options))
+      );
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  return { open, ...refs };
+}
+
+/**
+ * Props shared by the embedded components
+ */
+const embeddedProps = {
+  url: { type: String, required: true },
+  session: { type: Object as PropType<QuentliAuthSession>, required: true },
+  width: String,
+  height: String,
+  className: String,
+  allow: String,
+  autoResize: Boolean,
+  minHeight: Number,
+  maxHeight: Number,
+  refreshSession: Function as PropType<() => Promise<QuentliAuthSession>>,
+  appearance: Object as PropType<QuentliAppearance>,
+  locale: String as PropType<QuentliLocale>,
+  prefill: Object as PropType<QuentliPrefill>,
+} as const;
+
+/**
+ * Events shared by the embedded components, besides `complete`
+ */
+const embeddedEmits = {
+  cancel: (_reason: CancelReason) => true,
+  error: (_error: Error) => true,
+  ready: () => true,
+  failed: (_data: PaymentFailureData) => true,
+  processing: (_data: PaymentProcessingData) => true,
+  stepChange: (_data: StepChangeData) => true,
+  expired: () => true,
+  resize: (_height: number) => true,
+};
+
+type EmbeddedProps = {
+  url: string;
+  session: QuentliAuthSession;
+  width?: string;
+  height?: string;
+  className?: string;
+  allow?: string;
+  autoResize: boolean;
+  minHeight?: number;
+  maxHeight?: number;
+  refreshSession?: () => Promise<QuentliAuthSession>;
+  appearance?: QuentliAppearance;
+  locale?: QuentliLocale;
+  prefill?: QuentliPrefill;
+};
+
+type EmbeddedEmit = {
+  (event: "cancel", reason: CancelReason): void;
+  (event: "error", error: Error): void;
+  (event: "ready"): void;
+  (event: "expired"): void;
+  (event: "failed", data: PaymentFailureData): void;
+  (event: "processing", data: PaymentProcessingData): void;
+  (event: "stepChange", data: StepChangeData): void;
+  (event: "resize", height: number): void;
+};
+
+type EmbeddedCallbacks = Omit<
+  DisplayEmbeddedOptions,
+  "url" | "session" | "target" | "onComplete"
+>;
+
+/**
+ * Mount an embedded session into the component's root element
+ *
+ * The session is displayed on mount, remounted when the URL or credentials
+ * change, updated in place when `appearance` or `locale` change and closed on
+ * unmount. Events are not emitted for sessions closed
+ * that way.
+ */
+function useEmbeddedSession(
+  props: EmbeddedProps,
+  emit: EmbeddedEmit,
+  display: (
+    quentli: Quentli,
+    options: EmbeddedCallbacks & {
+      url: string;
+      session: QuentliAuthSession;
+      target: HTMLElement;
+      unlessDisposed: <TArgs extends unknown[]>(
+        callback: (...args: TArgs) => void
+      ) => (...args: TArgs) => void;
+    }
+  ) => Promise<QuentliSessionHandle>
+) {
+  const quentli = useQuentli();
+  const container = ref<HTMLElement | null>(null);
+  let dispose: (() => void) | null = null;
+  let current: QuentliSessionHandle | null = null;
+
+  const mount = () => {
+    dispose?.();
+    dispose = null;
+
+    const target = container.value;
+    if (!target) {
+      return;
+    }
+
+    let disposed = false;
+    let errorReported = false;
+    let handle: QuentliSessionHandle | null = null;
+
+    dispose = () => {
+      disposed = true;
+      handle?.close();
+      current = null;
+    };
+
+    const unlessDisposed =
+      <TArgs extends unknown[]>(callback: (...args: TArgs) => void) =>
+      (...args: TArgs) => {
+        if (!disposed) {
+          callback(...args);
+        }
+      };
+
+    display(quentli, {
+      url: props.url,
+      session: props.session,
+      target,
+      width: props.width,
+      height: props.height,
+      className: props.className,
+      allow: props.allow,
+      autoResize: props.autoResize,
+      minHeight: props.minHeight,
+      maxHeight: props.maxHeight,
+      refreshSession: props.refreshSession,
+      appearance: props.appearance,
+      locale: props.locale,
+      prefill: props.prefill,
+      unlessDisposed,
+      onCancel: unlessDisposed((reason: CancelReason) =>
+        emit("cancel", reason)
+      ),
+      onError: (error: Error) => {
+        errorReported = true;
+        if (!disposed) {
+          emit("error", error);
+        }
+      },
+      onReady: unlessDisposed(() => emit("ready")),
+      onFailed: unlessDisposed((data: PaymentFailureData) =>
+        emit("failed", data)
+      ),
+      onProcessing: unlessDisposed((data: PaymentProcessingData) =>
+        emit("processing", data)
+      ),
+      onStepChange: unlessDisposed((data: StepChangeData) =>
+        emit("stepChange", data)
+      ),
+      onExpired: unlessDisposed(() => emit("expired")),
+      onResize: unlessDisposed((height: number) => emit("resize", height)),
+    })
+      .then((opened) => {
+        if (disposed) {
+          opened.close();
+        } else {
+          handle = opened;
+          current = opened;
+        }
+      })
+      .catch((error: unknown) => {
+        // Validation errors are thrown without reaching onError
+        if (!disposed && !errorReported) {
+          emit(
+            "error",
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
+      });
+  };
+
+  onMounted(mount);
+  watch(
+    [
+      () => props.url,
+      () => props.session.accessToken,
+      () => props.session.csrfToken,
+      () => props.session.expiresAt,
+    ],
+    mount
+  );
+  watch(
+    () => props.appearance,
+    (appearance) => {
+      if (current && appearance) {
+        current.updateAppearance(appearance);
+      }
+    },
+    { deep: true }
+  );
+  watch(
+    () => props.locale,
+    (locale) => {
+      if (current && locale) {
+        current.setLocale(locale);
+      }
+    }
+  );
+  onBeforeUnmount(() => {
+    dispose?.();
+    dispose = null;
+  });
+
+  return () => h("div", { ref: container });
+}
+
+/**
+ * QuentliEmbeddedCheckout - Payment session embedded in the page
+ *
+ * Calls `paymentSessions.displayEmbedded()` on mount and closes the session on
+ * unmount. Emits `complete`, `cancel` and `error`, along with `ready`,
+ * `failed`, `processing`, `stepChange`, `expired` and `resize`.
+ */
+export const QuentliEmbeddedCheckout = defineComponent({
+  name: "QuentliEmbeddedCheckout",
+  props: embeddedProps,
+  emits: {
+    ...embeddedEmits,
+    complete: (_data: PaymentCompletionData) => true,
+  },
+  setup(props, { emit }) {
+    return useEmbeddedSession(props, emit, (quentli, { unlessDisposed, ...options }) =>
+      quentli.paymentSessions.displayEmbedded({
+        ...options,
+        onComplete: unlessDisposed((data: PaymentCompletionData) =>
+          emit("complete", data)
+        ),
+      })
+    );
+  },
+});
+
+/**
+ * QuentliEmbeddedSetup - Setup session embedded in the page
+ *
+ * Calls `setupSessions.displayEmbedded()` on mount and closes the session on
+ * unmount. Emits `complete`, `cancel` and `error`, along with `ready`,
+ * `failed`, `processing`, `stepChange`, `expired` and `resize`.
+ */
+export const QuentliEmbeddedSetup = defineComponent({
+  name: "QuentliEmbeddedSetup",
+  props: embeddedProps,
+  emits: {
+    ...embeddedEmits,
+    complete: (_data: PaymentMethodAddedData) => true,
+  },
+  setup(props, { emit }) {
+    return useEmbeddedSession(props, emit, (quentli, { unlessDisposed, ...options }) =>
+      quentli.setupSessions.displayEmbedded({
+        ...options,
+        onPaymentMethodAdded: unlessDisposed((data: PaymentMethodAddedData) =>
+          emit("complete", data)
+        ),
+      })
+    );
+  },
+});
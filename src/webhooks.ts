@@ -0,0 +1,210 @@
+import {
+  InvalidArgumentError,
+  UnsupportedEnvironmentError,
+  WebhookSignatureError,
+} from "./errors";
+import type { WebhookEvent } from "./types";
+
+/**
+ * Default maximum age of a webhook, in seconds
+ */
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Signature scheme of the `v1` entries in the signature header
+ */
+const SIGNATURE_SCHEME = "v1";
+
+/**
+ * Event types verifyWebhook accepts
+ */
+const WEBHOOK_EVENT_TYPES: readonly WebhookEvent["type"][] = [
+  "PAYMENT_COMPLETED",
+  "PAYMENT_METHOD_ADDED",
+];
+
+/**
+ * Options for verifyWebhook
+ */
+export interface VerifyWebhookOptions {
+  /**
+   * Maximum age of the signature timestamp, in seconds. Set to 0 to skip the
+   * timestamp check.
+   * @default 300
+   */
+  toleranceSeconds?: number;
+}
+
+/**
+ * Verify a webhook delivered by Quentli and return its event
+ *
+ * The `Quentli-Signature` header has the form `t=<timestamp>,v1=<signature>`,
+ * where the signature is the hex HMAC-SHA256 of `<timestamp>.<payload>` keyed
+ * with your webhook secret. Several `v1` entries may be present while a secret
+ * is being rotated. Pass the raw request body: re-serialized JSON won't match.
+ *
+ * @param payload - Raw request body
+ * @param signatureHeader - Value of the `Quentli-Signature` header
+ * @param secret - Webhook signing secret
+ * @throws {WebhookSignatureError} If the signature or timestamp is invalid
+ *
+ * @example
+ * ```typescript
+ * app.post('/webhooks/quentli', express.raw({ type: 'application/json' }), async (req, res) => {
+ *   const event = await verifyWebhook(
+ *     req.body,
+ *     req.get('Quentli-Signature'),
+ *     process.env.QUENTLI_WEBHOOK_SECRET
+ *   );
+ *
+ *   if (event.type === 'PAYMENT_COMPLETED') {
+ *     await fulfillOrder(event.data.paymentSessionId);
+ *   }
+ *   res.sendStatus(200);
+ * });
+ * ```
+ */
+export async function verifyWebhook(
+  payload: string | Uint8Array,
+  signatureHeader: string | null | undefined,
+  secret: string,
+  options: VerifyWebhookOptions = {}
+): Promise<WebhookEvent> {
+  // Validate required arguments for JavaScript users
+  if (typeof payload !== "string" && !(payload instanceof Uint8Array)) {
+    throw new InvalidArgumentError(
+      "payload must be the raw request body as a string or Uint8Array",
+      "payload"
+    );
+  }
+
+  if (!secret || typeof secret !== "string") {
+    throw new InvalidArgumentError(
+      "secret is required and must be a string",
+      "secret"
+    );
+  }
+
+  const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  if (!Number.isFinite(toleranceSeconds) || toleranceSeconds < 0) {
+    throw new InvalidArgumentError(
+      "toleranceSeconds must be a non-negative number",
+      "toleranceSeconds"
+    );
+  }
+
+  if (!signatureHeader || typeof signatureHeader !== "string") {
+    throw new WebhookSignatureError("Missing webhook signature header");
+  }
+
+  const { timestamp, signatures } = parseSignatureHeader(signatureHeader);
+  const body =
+    typeof payload === "string" ? payload : new TextDecoder().decode(payload);
+
+  const expected = await computeSignature(`${timestamp}.${body}`, secret);
+  if (!signatures.some((signature) => safeEqual(signature, expected))) {
+    throw new WebhookSignatureError("Webhook signature does not match");
+  }
+
+  if (
+    toleranceSeconds > 0 &&
+    Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds
+  ) {
+    throw new WebhookSignatureError(
+      "Webhook timestamp is outside the tolerance"
+    );
+  }
+
+  let event: unknown;
+  try {
+    event = JSON.parse(body);
+  } catch {
+    throw new InvalidArgumentError("Webhook payload is not valid JSON", "payload");
+  }
+
+  const { type, data } = (event ?? {}) as { type?: unknown; data?: unknown };
+  if (
+    typeof event !== "object" ||
+    !WEBHOOK_EVENT_TYPES.includes(type as WebhookEvent["type"]) ||
+    !data ||
+    typeof data !== "object"
+  ) {
+    throw new InvalidArgumentError(
+      "Webhook payload is not a Quentli event",
+      "payload"
+    );
+  }
+
+  return event as WebhookEvent;
+}
+
+/**
+ * Extract the timestamp and `v1` signatures from the signature header
+ */
+function parseSignatureHeader(header: string): {
+  timestamp: number;
+  signatures: string[];
+} {
+  let timestamp = NaN;
+  const signatures: string[] = [];
+
+  for (const part of header.split(",")) {
+    const separator = part.indexOf("=");
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+
+    if (key === "t") {
+      timestamp = Number(value);
+    } else if (key === SIGNATURE_SCHEME && value) {
+      signatures.push(value.toLowerCase());
+    }
+  }
+
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    throw new WebhookSignatureError("Malformed webhook signature header");
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Hex HMAC-SHA256 of `message` keyed with `secret`, via the Web Crypto API
+ */
+async function computeSignature(message: string, secret: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new UnsupportedEnvironmentError(
+      "Web Crypto API is not available in this environment"
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const key = await subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const digest = await subtle.sign("HMAC", key, encoder.encode(message));
+
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * Compare two strings in constant time for equal lengths
+ */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return diff === 0;
+}